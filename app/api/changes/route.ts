@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getChangeFeed } from '@/utils/changeFeed';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const since = new URL(request.url).searchParams.get('since') || undefined;
+
+  if (since && isNaN(new Date(since).getTime())) {
+    return NextResponse.json(
+      { error: 'since must be a valid ISO timestamp' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feed = await getChangeFeed(since);
+
+    return NextResponse.json(feed, {
+      headers: {
+        'Cache-Control': 'public, max-age=60, s-maxage=60',
+        'CDN-Cache-Control': 'max-age=60',
+        'Vercel-CDN-Cache-Control': 'max-age=60',
+      }
+    });
+  } catch (error) {
+    console.error('Error building change feed:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load change feed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { getDashboardData } from '@/utils/dashboardData';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const dashboard = await getDashboardData();
+    const isStale = dashboard.cacheSource === 'memory-stale' || dashboard.emergencies.stale;
+    const maxAge = isStale ? 60 : 180;
+
+    return NextResponse.json(dashboard, {
+      headers: {
+        'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`,
+        'CDN-Cache-Control': `max-age=${maxAge}`,
+        'Vercel-CDN-Cache-Control': `max-age=${maxAge}`,
+        'X-Cache-Status': dashboard.cached ? 'HIT' : 'MISS',
+      }
+    });
+  } catch (error) {
+    console.error('Error building dashboard:', error);
+
+    // No data available from any source, return error
+    return NextResponse.json(
+      {
+        error: 'Failed to load dashboard data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getDashboardData } from '@/utils/dashboardData';
+import { EXPORT_FORMATS, ExportFormat, exportEmergencies } from '@/utils/emergencyExport';
+import { parseEmergencyQuery, queryEmergencies } from '@/utils/emergencyQuery';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const format = (searchParams.get('format') || 'csv').toLowerCase() as ExportFormat;
+  const { query, errors } = parseEmergencyQuery(searchParams);
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    errors.push(`format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Export the relief-matched records so enrichment fields are included
+    const dashboard = await getDashboardData();
+    const { data } = queryEmergencies(dashboard.emergencies.data, query);
+    const { content, contentType, filename } = exportEmergencies(data, format);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'public, max-age=180, s-maxage=180',
+        'CDN-Cache-Control': 'max-age=180',
+        'Vercel-CDN-Cache-Control': 'max-age=180',
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Failed to export emergency data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { getDashboardData } from '@/utils/dashboardData';
+import { DataUpdateEvent, subscribeToDataUpdates } from '@/utils/dataEvents';
+
+// Force dynamic rendering so the stream is never cached
+export const dynamic = 'force-dynamic';
+
+const REFRESH_INTERVAL = 60 * 1000; // Check for expired caches every minute while clients are connected
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keep proxies from closing idle connections
+const MAX_STREAM_DURATION = 280 * 1000; // End before the function timeout; EventSource reconnects on its own
+const RECONNECT_DELAY = 10 * 1000;
+
+const encoder = new TextEncoder();
+
+// Function to format a Server-Sent Event
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(request: Request) {
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const unsubscribe = subscribeToDataUpdates((event: DataUpdateEvent) => {
+        console.log(`📡 Pushing ${event.source} update (${event.count} records)`);
+        send(formatEvent(event.source, event));
+      });
+
+      // Data is only refreshed when requested, so keep the caches fresh while someone is watching
+      const refreshTimer = setInterval(() => {
+        getDashboardData().catch(error => console.error('Error refreshing data for event stream:', error));
+      }, REFRESH_INTERVAL);
+      const heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+      const closeTimer = setTimeout(() => cleanup(), MAX_STREAM_DURATION);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(refreshTimer);
+        clearInterval(heartbeatTimer);
+        clearTimeout(closeTimer);
+        try {
+          controller.close();
+        } catch (error) {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+
+      send(`retry: ${RECONNECT_DELAY}\n\n`);
+      send(formatEvent('connected', { connectedAt: new Date().toISOString() }));
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getHealthReport } from '@/utils/health';
+
+// Force dynamic rendering so every check sees the live pipeline state
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const report = await getHealthReport();
+
+    // 503 only when there is no emergency data to serve, so uptime monitors can alert on it
+    return NextResponse.json(report, {
+      status: report.status === 'down' ? 503 : 200,
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building health report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build health report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
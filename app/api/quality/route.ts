@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getQualityReview } from '@/utils/emergencyData';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const review = await getQualityReview();
+
+    return NextResponse.json(review, {
+      headers: {
+        'Cache-Control': 'public, max-age=60, s-maxage=60',
+        'CDN-Cache-Control': 'max-age=60',
+        'Vercel-CDN-Cache-Control': 'max-age=60',
+      }
+    });
+  } catch (error) {
+    console.error('Error loading data-quality review:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load data-quality review',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
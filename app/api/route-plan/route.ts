@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getDashboardData } from '@/utils/dashboardData';
+import { buildRoutePlan, parseRoutePlanQuery } from '@/utils/routePlanning';
+import { getPublicBaseUrl } from '@/utils/shareContent';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const { request: planRequest, errors } = parseRoutePlanQuery(new URL(request.url).searchParams);
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const dashboard = await getDashboardData();
+    const { plan, error } = buildRoutePlan(
+      dashboard.emergencies.data,
+      dashboard.reliefActions ? dashboard.reliefActions.data : [],
+      planRequest,
+      getPublicBaseUrl()
+    );
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: [error] },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🗺️ Planned route with ${plan.stops.length} stops (${plan.totalKm.toFixed(1)} km, ${plan.skipped.length} over capacity)`);
+    return NextResponse.json({
+      ...plan,
+      dataLastUpdated: dashboard.emergencies.lastUpdated,
+      stale: dashboard.emergencies.stale,
+    });
+  } catch (error) {
+    console.error('Error planning route:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to plan route',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
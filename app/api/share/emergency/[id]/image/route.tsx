@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { ImageResponse } from 'next/og';
+import EmergencyShareImage from '@/components/EmergencyShareImage';
+import { getEmergencyById } from '@/utils/dataAccess';
+import {
+  SHARE_IMAGE_HEIGHT,
+  SHARE_IMAGE_WIDTH,
+  cacheShareImage,
+  getCachedShareImage,
+  getMiniMapPoints,
+  getShareImageVersion,
+} from '@/utils/shareImage';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const lookup = await getEmergencyById(params.id);
+
+    if (!lookup) {
+      return NextResponse.json({ error: 'Emergency not found' }, { status: 404 });
+    }
+
+    const { emergency, dashboard } = lookup;
+
+    // A URL with the current version never changes, so it can be cached for good
+    const mapPoints = getMiniMapPoints(emergency, dashboard);
+    const version = getShareImageVersion(emergency, mapPoints);
+    const requestedVersion = new URL(request.url).searchParams.get('v');
+    const cacheControl = requestedVersion === version
+      ? 'public, max-age=31536000, immutable'
+      : 'public, max-age=300, s-maxage=300';
+
+    const cacheKey = `${emergency.id}:${version}`;
+    let image = getCachedShareImage(cacheKey);
+
+    if (!image) {
+      const rendered = new ImageResponse(
+        <EmergencyShareImage emergency={emergency} mapPoints={mapPoints} />,
+        { width: SHARE_IMAGE_WIDTH, height: SHARE_IMAGE_HEIGHT }
+      );
+      image = await rendered.arrayBuffer();
+      cacheShareImage(cacheKey, image);
+      console.log(`🖼️ Rendered share image for emergency ${emergency.id} (version ${version})`);
+    }
+
+    return new NextResponse(image, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': cacheControl,
+        'CDN-Cache-Control': cacheControl,
+        'Vercel-CDN-Cache-Control': cacheControl,
+      }
+    });
+  } catch (error) {
+    console.error('Error rendering share image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render share image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
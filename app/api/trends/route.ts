@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getEmergencyData } from '@/utils/emergencyData';
+import { getSnapshotStorage } from '@/utils/snapshotStorage';
+import { buildTrends, DEFAULT_TREND_HOURS, MAX_TREND_HOURS } from '@/utils/trends';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const hoursParam = new URL(request.url).searchParams.get('hours');
+  const hours = hoursParam === null ? DEFAULT_TREND_HOURS : Number(hoursParam);
+
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_TREND_HOURS) {
+    return NextResponse.json(
+      { error: `hours must be an integer between 1 and ${MAX_TREND_HOURS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const now = Date.now();
+    const since = new Date(now - hours * 60 * 60 * 1000).toISOString();
+
+    // Snapshots drive the "over time" series; the current dataset drives new reports per hour
+    const [snapshots, emergencies] = await Promise.all([
+      getSnapshotStorage().list(since),
+      getEmergencyData(),
+    ]);
+
+    return NextResponse.json(buildTrends(snapshots, emergencies.data, hours, now), {
+      headers: {
+        'Cache-Control': 'public, max-age=300, s-maxage=300',
+        'CDN-Cache-Control': 'max-age=300',
+        'Vercel-CDN-Cache-Control': 'max-age=300',
+      }
+    });
+  } catch (error) {
+    console.error('Error building trends:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load trend data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { PriorityWeights, TriageResponse } from '@/types/emergency';
+import { getDashboardData } from '@/utils/dashboardData';
+import { buildTriageQueue, getPriorityWeights, parsePriorityWeights } from '@/utils/prioritization';
+
+// Force dynamic rendering to ensure we can use caching headers
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Function to read the queue length and weight overrides from the request
+function parseTriageQuery(searchParams: URLSearchParams): { limit: number; weights: PriorityWeights; errors: string[] } {
+  const errors: string[] = [];
+  let limit = DEFAULT_LIMIT;
+
+  const limitParam = searchParams.get('limit');
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      errors.push(`limit must be a whole number from 1 to ${MAX_LIMIT}`);
+    }
+  }
+
+  // Weights from the request are applied on top of the configured ones
+  const weightsParam = searchParams.get('weights');
+  if (weightsParam === null) {
+    return { limit, weights: getPriorityWeights(), errors };
+  }
+
+  const parsed = parsePriorityWeights(weightsParam, getPriorityWeights());
+  return { limit, weights: parsed.weights, errors: errors.concat(parsed.errors) };
+}
+
+export async function GET(request: Request) {
+  const { limit, weights, errors } = parseTriageQuery(new URL(request.url).searchParams);
+
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const dashboard = await getDashboardData();
+    const { entries, totalPending } = buildTriageQueue(
+      dashboard.emergencies.data,
+      dashboard.reliefActions ? dashboard.reliefActions.data : [],
+      { weights, limit }
+    );
+
+    const response: TriageResponse = {
+      success: true,
+      weights,
+      totalPending,
+      data: entries,
+      generatedAt: new Date().toISOString(),
+      dataLastUpdated: dashboard.emergencies.lastUpdated,
+      stale: dashboard.emergencies.stale,
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, max-age=60, s-maxage=60',
+        'CDN-Cache-Control': 'max-age=60',
+        'Vercel-CDN-Cache-Control': 'max-age=60',
+      }
+    });
+  } catch (error) {
+    console.error('Error building triage queue:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to build triage queue',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
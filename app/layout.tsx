@@ -1,6 +1,7 @@
 import type { Metadata } from 'next';
 import './globals.css';
 import GoogleAnalytics from '@/components/GoogleAnalytics';
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
 
 // Randomly select one of the share images for default metadata
 const shareImages = ['share_a.jpg', 'share_b.jpg', 'share_c.jpg', 'share_d.jpg', 'share_e.jpg'];
@@ -40,7 +41,7 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className="min-h-screen bg-cover bg-center bg-no-repeat bg-fixed" 
+      <body className="min-h-screen bg-cover bg-center bg-no-repeat bg-fixed print:!bg-none" 
             style={{
               backgroundImage: 'url(/background.png)',
             }}>
@@ -48,9 +49,12 @@ export default function RootLayout({
         {process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID && (
           <GoogleAnalytics measurementId={process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID} />
         )}
+
+        {/* Offline support */}
+        <ServiceWorkerRegistration />
         
         {/* Background overlay for better readability */}
-        <div className="min-h-screen bg-black bg-opacity-40">
+        <div className="min-h-screen bg-black bg-opacity-40 print:bg-transparent print:min-h-0">
           {children}
         </div>
       </body>
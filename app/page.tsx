@@ -1,17 +1,75 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { EmergencyResponse, DashboardStats, ChartData, ReliefActionsResponse } from '@/types/emergency';
-import { BarChart, DoughnutChart, PieChart } from '@/components/ChartComponents';
+import { useState, useEffect, useMemo } from 'react';
+import dynamic from 'next/dynamic';
+import { EmergencyResponse, DashboardStats, DashboardResponse, ChartData, ReliefActionsResponse, EmergencySortField, TrendPoint, TrendsResponse, ChangeFeedResponse, EmergencyChangeType, DuplicateCluster, DuplicateReason, StatsCountMode } from '@/types/emergency';
+import { BarChart, DoughnutChart, LineChart, PieChart } from '@/components/ChartComponents';
+import ShareButtons from '@/components/ShareButtons';
 import { trackEmergencyEvent } from '@/utils/analytics';
-import { findClosestReliefAction } from '@/utils/geospatial';
+import { filterEmergencies, sortEmergencies } from '@/utils/emergencyQuery';
+import { detectDuplicates } from '@/utils/deduplication';
+import { EXPORT_FORMATS, ExportFormat, exportEmergencies } from '@/utils/emergencyExport';
+import { loadOfflineResponse, saveOfflineResponse } from '@/utils/offlineStore';
+import { generateStatistics } from '@/utils/statistics';
+
+// Leaflet needs `window`, so the map is only rendered on the client
+const EmergencyMap = dynamic(() => import('@/components/EmergencyMap'), {
+  ssr: false,
+  loading: () => (
+    <div className="h-[28rem] w-full rounded-xl bg-gray-100 flex items-center justify-center text-gray-500">
+      Loading map...
+    </div>
+  ),
+});
+
+// Remembers when the dashboard was last opened so the change feed can show what happened since
+const LAST_VISIT_KEY = 'emergency-dashboard-last-visit';
+
+const changeBadges: Record<EmergencyChangeType, { label: string; className: string }> = {
+  'new': { label: 'New', className: 'bg-purple-100 text-purple-800 border-purple-200' },
+  'status-changed': { label: 'Status changed', className: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
+  'updated': { label: 'Updated', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  'newly-matched': { label: 'Newly matched', className: 'bg-green-100 text-green-800 border-green-200' },
+  'removed': { label: 'Removed', className: 'bg-gray-100 text-gray-500 border-gray-200' },
+};
+
+const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  phone: 'same phone number',
+  proximity: 'same location',
+  notes: 'similar notes',
+};
+
+// Function to load the last good data saved on this device
+async function loadOfflineDashboard() {
+  try {
+    const [emergencyRecord, reliefRecord] = await Promise.all([
+      loadOfflineResponse('emergencies'),
+      loadOfflineResponse('relief-actions'),
+    ]);
+    if (!emergencyRecord) {
+      return null;
+    }
+
+    return {
+      emergencies: emergencyRecord.value,
+      reliefActions: reliefRecord ? reliefRecord.value : null,
+      savedAt: emergencyRecord.savedAt,
+    };
+  } catch (err) {
+    console.error('Error loading offline data:', err);
+    return null;
+  }
+}
 
 export default function Dashboard() {
   const [data, setData] = useState<EmergencyResponse | null>(null);
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [incidentStats, setIncidentStats] = useState<DashboardStats | null>(null);
+  const [duplicateClusters, setDuplicateClusters] = useState<DuplicateCluster[]>([]);
+  const [statsMode, setStatsMode] = useState<StatsCountMode>('reports');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sortField, setSortField] = useState<'urgencyLevel' | 'numberOfPeople' | 'timestamp' | 'status'>('urgencyLevel');
+  const [sortField, setSortField] = useState<EmergencySortField>('urgencyLevel');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [selectedEmergency, setSelectedEmergency] = useState<EmergencyResponse['data'][0] | null>(null);
@@ -19,48 +77,117 @@ export default function Dashboard() {
   const [cacheInfo, setCacheInfo] = useState<{cached?: boolean, stale?: boolean, lastUpdated?: string, nextUpdate?: string, cacheSource?: string} | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [reliefActions, setReliefActions] = useState<ReliefActionsResponse | null>(null);
+  const [reliefError, setReliefError] = useState<string | null>(null);
+  const [trends, setTrends] = useState<TrendsResponse | null>(null);
+  const [changeFeed, setChangeFeed] = useState<ChangeFeedResponse | null>(null);
+  const [liveUpdates, setLiveUpdates] = useState<boolean>(false);
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
+  const [offlineSavedAt, setOfflineSavedAt] = useState<string | null>(null);
+  const [printSelection, setPrintSelection] = useState<string[]>([]);
   const itemsPerPage = 100;
 
   useEffect(() => {
     loadData();
+    loadTrends();
+    loadChanges();
+  }, []);
+
+  useEffect(() => {
+    // Merge in fresh upstream data as soon as the server has it
+    if (typeof EventSource === 'undefined') return;
+
+    const events = new EventSource('/api/events');
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleUpdate = (event: MessageEvent) => {
+      const update: { lastUpdated: string } = JSON.parse(event.data);
+      // Both datasets often refresh together; reload once
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        loadData(update.lastUpdated);
+        loadTrends();
+      }, 1000);
+    };
+
+    events.addEventListener('emergencies', handleUpdate);
+    events.addEventListener('relief-actions', handleUpdate);
+    events.onopen = () => setLiveUpdates(true);
+    events.onerror = () => setLiveUpdates(false);
+
+    return () => {
+      clearTimeout(refreshTimer);
+      events.close();
+    };
   }, []);
 
-  const loadData = async () => {
-    // Load relief actions first, then emergency data with relief actions data
-    const reliefData = await loadReliefActions();
-    await loadEmergencyData(reliefData);
+  useEffect(() => {
+    // Sync as soon as the connection comes back
+    const handleOnline = () => {
+      loadData(new Date().toISOString());
+      loadTrends();
+      loadChanges();
+    };
+    const handleOffline = () => {
+      setOfflineSince(current => current || new Date().toISOString());
+    };
+
+    if (!navigator.onLine) handleOffline();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const loadChanges = async () => {
+    // First visit: show what changed between the last two dataset versions
+    try {
+      const lastVisit = window.localStorage.getItem(LAST_VISIT_KEY);
+      const response = await fetch(lastVisit ? `/api/changes?since=${encodeURIComponent(lastVisit)}` : '/api/changes');
+      if (!response.ok) {
+        return;
+      }
+      const feed: ChangeFeedResponse = await response.json();
+      if (feed.success) {
+        setChangeFeed(feed);
+        window.localStorage.setItem(LAST_VISIT_KEY, new Date().toISOString());
+      }
+    } catch (err) {
+      console.error('Error loading changes:', err);
+    }
   };
 
-  const loadReliefActions = async (): Promise<ReliefActionsResponse | null> => {
+  const loadTrends = async () => {
+    // Trends are a nice-to-have; the dashboard still works without them
     try {
-      const response = await fetch('/api/relief-actions');
+      const response = await fetch('/api/trends');
       if (!response.ok) {
-        return null;
+        return;
       }
-      const reliefData: ReliefActionsResponse = await response.json();
-      
-      if (reliefData.success && reliefData.data) {
-        setReliefActions(reliefData);
-        return reliefData;
-      } else {
-        return null;
+      const trendsData: TrendsResponse = await response.json();
+      if (trendsData.success) {
+        setTrends(trendsData);
       }
     } catch (err) {
-      return null;
+      console.error('Error loading trends:', err);
     }
   };
 
-  const loadEmergencyData = async (reliefActionsData: ReliefActionsResponse | null) => {
+  const loadData = async (version?: string) => {
     try {
-      const response = await fetch('/api/emergencies');
+      // Emergencies come back already matched with relief actions, together with precomputed statistics.
+      // Pushed updates pass the new data version so the request isn't answered from the CDN cache.
+      const response = await fetch(version ? `/api/dashboard?v=${encodeURIComponent(version)}` : '/api/dashboard');
       if (!response.ok) {
         throw new Error('Failed to load data');
       }
-      const emergencyData: EmergencyResponse = await response.json();
+      const dashboardData: DashboardResponse = await response.json();
+      const emergencyData = dashboardData.emergencies;
       
       // Check response headers for more accurate cache status
       const vercelCacheStatus = response.headers.get('x-vercel-cache');
-      const debugInfo = response.headers.get('x-debug-info');
       
       // Override cache info based on actual response headers
       if (vercelCacheStatus === 'HIT') {
@@ -68,16 +195,21 @@ export default function Dashboard() {
         emergencyData.cacheSource = 'cdn';
       }
       
-      if (!emergencyData.success || !emergencyData.data) {
+      if (!dashboardData.success || !emergencyData || !emergencyData.data) {
         throw new Error('Invalid data format');
       }
 
-      // Apply geospatial matching with relief actions
-      const enrichedData = await enrichWithReliefActions(emergencyData, reliefActionsData);
-
-      setData(enrichedData);
-      const calculatedStats = generateStatistics(enrichedData.data);
-      setStats(calculatedStats);
+      setData(emergencyData);
+      // Keep an open modal showing the latest version of its record
+      setSelectedEmergency(current => current
+        ? emergencyData.data.find(emergency => emergency.id === current.id) || current
+        : current);
+      setStats(dashboardData.stats);
+      // Dashboards stored before duplicate detection have no incident stats
+      setIncidentStats(dashboardData.incidentStats || dashboardData.stats);
+      setDuplicateClusters(dashboardData.duplicateClusters || []);
+      setReliefActions(dashboardData.reliefActions);
+      setReliefError(dashboardData.reliefError || null);
       setCacheInfo({
         cached: emergencyData.cached,
         stale: emergencyData.stale,
@@ -85,6 +217,14 @@ export default function Dashboard() {
         nextUpdate: emergencyData.nextUpdate,
         cacheSource: emergencyData.cacheSource,
       });
+      setOfflineSince(null);
+      setOfflineSavedAt(null);
+
+      // Keep the last good data on this device for offline use
+      Promise.all([
+        saveOfflineResponse('emergencies', emergencyData),
+        dashboardData.reliefActions ? saveOfflineResponse('relief-actions', dashboardData.reliefActions) : Promise.resolve(),
+      ]).catch(err => console.error('Error saving offline data:', err));
       
       // Track data refresh
       const dataSource = vercelCacheStatus === 'HIT' ? 'cdn' : 
@@ -95,116 +235,34 @@ export default function Dashboard() {
       setLoading(false);
     } catch (err) {
       console.error('Error loading data:', err);
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setLoading(false);
-    }
-  };
-
-  const enrichWithReliefActions = async (emergencyData: EmergencyResponse, reliefActionsData: ReliefActionsResponse | null): Promise<EmergencyResponse> => {
-    if (!reliefActionsData || !reliefActionsData.data || reliefActionsData.data.length === 0) {
-      return emergencyData;
-    }
-    
-    const enrichedData = emergencyData.data.map(emergency => {
-      const closestRelief = findClosestReliefAction(
-        emergency.latitude,
-        emergency.longitude,
-        reliefActionsData.data,
-        0.2 // 200m radius
-      );
-
-      if (closestRelief) {
-        return {
-          ...emergency,
-          hasReliefAction: true,
-          reliefActionDistance: closestRelief.distance,
-          reliefActionDetails: closestRelief.reliefAction
-        };
+      // fetch rejects with a TypeError when the network is unreachable
+      if (!navigator.onLine || err instanceof TypeError) {
+        setOfflineSince(current => current || new Date().toISOString());
       }
-
-      return {
-        ...emergency,
-        hasReliefAction: false
-      };
-    });
-
-    return {
-      ...emergencyData,
-      data: enrichedData
-    };
-  };
-
-  const generateStatistics = (emergencyData: EmergencyResponse['data']): DashboardStats => {
-    // Summary statistics
-    const totalEmergencies = emergencyData.length;
-    const totalPeople = emergencyData.reduce((sum, item) => sum + (item.numberOfPeople || 0), 0);
-    const avgPeople = totalPeople / totalEmergencies;
-    const pendingCount = emergencyData.filter(item => item.status === 'pending').length;
-
-    // Calculate median for more robust average
-    const peopleCounts = emergencyData.map(item => item.numberOfPeople || 0).sort((a, b) => a - b);
-    const median = peopleCounts.length % 2 === 0 
-      ? (peopleCounts[peopleCounts.length / 2 - 1] + peopleCounts[peopleCounts.length / 2]) / 2
-      : peopleCounts[Math.floor(peopleCounts.length / 2)];
-
-    // Calculate average without extreme outliers (filter out > 500 people)
-    const filteredData = emergencyData.filter(item => (item.numberOfPeople || 0) <= 500);
-    const filteredTotalPeople = filteredData.reduce((sum, item) => sum + (item.numberOfPeople || 0), 0);
-    const filteredAvgPeople = filteredData.length > 0 ? filteredTotalPeople / filteredData.length : avgPeople;
-
-    // Analyze needs
-    const needsCount: Record<string, number> = {};
-    emergencyData.forEach(item => {
-      if (item.needs && Array.isArray(item.needs)) {
-        item.needs.forEach(need => {
-          needsCount[need] = (needsCount[need] || 0) + 1;
+      // A failed live update keeps showing the data we already have
+      if (version) return;
+
+      // Fall back to the last good data saved on this device
+      const offline = await loadOfflineDashboard();
+      if (offline) {
+        setData(offline.emergencies);
+        setStats(generateStatistics(offline.emergencies.data));
+        setIncidentStats(generateStatistics(offline.emergencies.data, 'incidents'));
+        setDuplicateClusters(detectDuplicates(offline.emergencies.data).clusters);
+        setReliefActions(offline.reliefActions);
+        setCacheInfo({
+          cached: true,
+          stale: true,
+          lastUpdated: offline.emergencies.lastUpdated,
+          cacheSource: 'offline',
         });
+        setOfflineSavedAt(offline.savedAt);
+        setLoading(false);
+        return;
       }
-    });
-    const needsStats = Object.entries(needsCount)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .map(([label, value]) => ({ label: label.charAt(0).toUpperCase() + label.slice(1), value }));
-
-    // Analyze urgency
-    const urgencyCount: Record<string, number> = {};
-    emergencyData.forEach(item => {
-      if (item.urgencyLevel) {
-        urgencyCount[item.urgencyLevel] = (urgencyCount[item.urgencyLevel] || 0) + 1;
-      }
-    });
-    const urgencyStats = Object.entries(urgencyCount)
-      .sort((a, b) => b[1] - a[1])
-      .map(([label, value]) => ({ label, value }));
-
-    // Analyze status (including relief available)
-    const statusCount: Record<string, number> = {};
-    emergencyData.forEach(item => {
-      if (item.hasReliefAction) {
-        // Count relief available as a separate category
-        statusCount['Relief Available'] = (statusCount['Relief Available'] || 0) + 1;
-      } else if (item.status) {
-        // Count original status for non-relief items
-        statusCount[item.status] = (statusCount[item.status] || 0) + 1;
-      }
-    });
-    const statusStats = Object.entries(statusCount)
-      .sort((a, b) => b[1] - a[1])
-      .map(([label, value]) => ({ 
-        label: label === 'Relief Available' ? 'Relief Available' : label.charAt(0).toUpperCase() + label.slice(1), 
-        value 
-      }));
-
-
-    return {
-      totalEmergencies,
-      totalPeople,
-      avgPeople: Math.round(filteredAvgPeople), // Use filtered average to remove extreme outliers
-      pendingCount,
-      needsStats,
-      urgencyStats,
-      statusStats,
-    };
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setLoading(false);
+    }
   };
 
   const createChartData = (stats: { label: string; value: number }[]): ChartData => ({
@@ -215,7 +273,30 @@ export default function Dashboard() {
     }],
   });
 
-  const handleSort = (field: 'urgencyLevel' | 'numberOfPeople' | 'timestamp' | 'status') => {
+  const createTrendChartData = (points: TrendPoint[], label: string): ChartData => ({
+    labels: points.map(point => new Date(point.timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+    })),
+    datasets: [{
+      label,
+      data: points.map(point => point.value),
+    }],
+  });
+
+  const formatTrendChange = (points: TrendPoint[]) => {
+    if (points.length < 2) return null;
+    const change = points[points.length - 1].value - points[0].value;
+    if (change === 0) return <span className="text-gray-500">No change</span>;
+    return (
+      <span className={change < 0 ? 'text-green-600' : 'text-red-600'}>
+        {change < 0 ? '▼' : '▲'} {Math.abs(change).toLocaleString()} over {trends?.hours}h
+      </span>
+    );
+  };
+
+  const handleSort = (field: EmergencySortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
@@ -225,71 +306,18 @@ export default function Dashboard() {
   };
 
   const filterAndSortData = (emergencies: EmergencyResponse['data']) => {
-    // First filter by search query
-    const filteredData = searchQuery.trim() === '' 
-      ? emergencies 
-      : emergencies.filter(emergency => {
-          const searchLower = searchQuery.toLowerCase();
-          return (
-            emergency.placename.toLowerCase().includes(searchLower) ||
-            emergency.contactno.toLowerCase().includes(searchLower) ||
-            emergency.urgencyLevel.toLowerCase().includes(searchLower) ||
-            emergency.status.toLowerCase().includes(searchLower) ||
-            emergency.additionalNotes.toLowerCase().includes(searchLower) ||
-            emergency.needs.some(need => need.toLowerCase().includes(searchLower)) ||
-            emergency.numberOfPeople.toString().includes(searchLower)
-          );
-        });
-
-    // Then sort the filtered data
-    return [...filteredData].sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      switch (sortField) {
-        case 'urgencyLevel':
-          // Custom order: CRITICAL > HIGH > MEDIUM > LOW
-          const urgencyOrder = { 'CRITICAL': 4, 'HIGH': 3, 'MEDIUM': 2, 'LOW': 1 };
-          aValue = urgencyOrder[a.urgencyLevel as keyof typeof urgencyOrder] || 0;
-          bValue = urgencyOrder[b.urgencyLevel as keyof typeof urgencyOrder] || 0;
-          break;
-        case 'numberOfPeople':
-          aValue = a.numberOfPeople || 0;
-          bValue = b.numberOfPeople || 0;
-          break;
-        case 'timestamp':
-          aValue = new Date(a.timestamp).getTime();
-          bValue = new Date(b.timestamp).getTime();
-          break;
-        case 'status':
-          // Custom order: Relief Available > pending > in-progress > resolved > cancelled
-          const statusOrder = { 'pending': 4, 'in-progress': 3, 'resolved': 2, 'cancelled': 1 };
-          
-          // If relief is available, give it highest priority (5)
-          if (a.hasReliefAction) {
-            aValue = 5;
-          } else {
-            aValue = statusOrder[a.status as keyof typeof statusOrder] || 0;
-          }
-          
-          if (b.hasReliefAction) {
-            bValue = 5;
-          } else {
-            bValue = statusOrder[b.status as keyof typeof statusOrder] || 0;
-          }
-          break;
-        default:
-          return 0;
-      }
-
-      if (sortDirection === 'asc') {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
+    // Same search and sort semantics as the /api/emergencies query parameters
+    const filteredData = filterEmergencies(emergencies, { q: searchQuery });
+    return sortEmergencies(filteredData, sortField, sortDirection);
   };
 
+  // Filtered records and relief actions for the map, computed once per change so its layers aren't rebuilt on every render
+  const mapEmergencies = useMemo(
+    () => sortEmergencies(filterEmergencies(data?.data || [], { q: searchQuery }), sortField, sortDirection),
+    [data, searchQuery, sortField, sortDirection]
+  );
+  const mapReliefActions = useMemo(() => reliefActions?.data || [], [reliefActions]);
+
   const getPaginatedData = (emergencies: EmergencyResponse['data']) => {
     const filteredAndSorted = filterAndSortData(emergencies);
     const totalPages = Math.ceil(filteredAndSorted.length / itemsPerPage);
@@ -329,6 +357,54 @@ export default function Dashboard() {
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    // Export every page of what the table shows; generated on the device so it also works offline
+    const records = filterAndSortData(data?.data || []);
+    const { content, contentType, filename } = exportEmergencies(records, format);
+
+    const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+
+    // Revoking straight after the click can cancel the download in Firefox and Safari
+    setTimeout(() => {
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }, 1000);
+
+    trackEmergencyEvent.exportData(format, records.length);
+  };
+
+  const getExportApiUrl = (format: ExportFormat) => {
+    // Same search and sort as the table, for scripts and GIS tools that pull the data directly
+    const params = new URLSearchParams({ format, sort: sortField, order: sortDirection });
+    if (searchQuery.trim()) params.set('q', searchQuery.trim());
+    return `/api/emergencies/export?${params.toString()}`;
+  };
+
+  const togglePrintSelection = (ids: string[], selected: boolean) => {
+    setPrintSelection(current => selected
+      ? current.concat(ids.filter(id => !current.includes(id)))
+      : current.filter(id => !ids.includes(id)));
+  };
+
+  const getFieldSheetsUrl = () => {
+    // Selected records when there are any, otherwise everything the table shows, with the same search and sort
+    const params = new URLSearchParams();
+    if (printSelection.length > 0) {
+      params.set('ids', printSelection.join(','));
+    } else {
+      params.set('sort', sortField);
+      params.set('order', sortDirection);
+      if (searchQuery.trim()) params.set('q', searchQuery.trim());
+    }
+    return `/print?${params.toString()}`;
+  };
+
   const handleRowClick = (emergency: EmergencyResponse['data'][0]) => {
     setSelectedEmergency(emergency);
     setShowModal(true);
@@ -389,32 +465,33 @@ export default function Dashboard() {
     );
   };
 
-  const handleShareToFacebook = (emergency: EmergencyResponse['data'][0]) => {
-    // Create a shareable URL with emergency details
-    const shareUrl = `${window.location.origin}/share/emergency/${emergency.id}`;
-    
-    // Use Facebook's simple sharer - Facebook will pull content from Open Graph meta tags
-    const facebookShareUrl = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(shareUrl)}`;
-    
-    // Open in a popup window
-    const popup = window.open(
-      facebookShareUrl,
-      'facebook-share-dialog',
-      'width=600,height=400,scrollbars=yes,resizable=yes'
+  const formatChangeBadges = (types?: EmergencyChangeType[]) => {
+    const visibleTypes = (types || []).filter(type => type !== 'updated' && type !== 'removed');
+    if (visibleTypes.length === 0) return null;
+    return (
+      <div className="flex flex-wrap gap-1 mb-1">
+        {visibleTypes.map(type => (
+          <span
+            key={type}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${changeBadges[type].className}`}
+          >
+            {changeBadges[type].label}
+          </span>
+        ))}
+      </div>
     );
-    
-    // Focus the popup window
-    if (popup) {
-      popup.focus();
-    }
+  };
+
+  const formatDistance = (distance: number) => {
+    return distance < 1 
+      ? `${(distance * 1000).toFixed(0)}m away`
+      : `${distance.toFixed(1)}km away`;
   };
 
   const formatEnhancedStatus = (emergency: EmergencyResponse['data'][0]) => {
     // If there's a relief action match, show relief information
-    if (emergency.hasReliefAction && emergency.reliefActionDistance) {
-      const distanceText = emergency.reliefActionDistance < 1 
-        ? `${(emergency.reliefActionDistance * 1000).toFixed(0)}m away`
-        : `${emergency.reliefActionDistance.toFixed(1)}km away`;
+    if (emergency.hasReliefAction && emergency.reliefActionDistance !== undefined) {
+      const distanceText = formatDistance(emergency.reliefActionDistance);
       
       return (
         <div className="flex flex-col space-y-1">
@@ -431,6 +508,22 @@ export default function Dashboard() {
       );
     }
 
+    // Nearby donations that don't fully cover the needs yet
+    if (emergency.reliefMatches && emergency.reliefMatches.length > 0) {
+      return (
+        <div className="flex flex-col space-y-1">
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200">
+            Partial Relief · {Math.round((emergency.coverageScore || 0) * 100)}%
+          </span>
+          {emergency.unmetNeeds && emergency.unmetNeeds.length > 0 && (
+            <span className="text-xs text-gray-500">
+              Still needs: {emergency.unmetNeeds.join(', ')}
+            </span>
+          )}
+        </div>
+      );
+    }
+
     // Otherwise, show the original status with appropriate colors
     const statusColor = {
       'pending': 'bg-orange-100 text-orange-800 border-orange-200',
@@ -475,6 +568,22 @@ export default function Dashboard() {
 
   if (!stats || !data) return null;
 
+  const shownStats = statsMode === 'incidents' && incidentStats ? incidentStats : stats;
+  const clusterById: Record<string, DuplicateCluster> = {};
+  duplicateClusters.forEach(cluster => {
+    clusterById[cluster.id] = cluster;
+  });
+  const duplicateReportCount = duplicateClusters.reduce((sum, cluster) => sum + cluster.reportIds.length - 1, 0);
+
+  const emergencyById: Record<string, EmergencyResponse['data'][0]> = {};
+  data.data.forEach(emergency => {
+    emergencyById[emergency.id] = emergency;
+  });
+  const changeTypesById: Record<string, EmergencyChangeType[]> = {};
+  changeFeed?.changes.forEach(change => {
+    changeTypesById[change.id] = change.types;
+  });
+
   return (
     <div className="min-h-screen p-5">
       <div className="max-w-7xl mx-auto bg-white bg-opacity-95 backdrop-blur-sm rounded-3xl shadow-2xl overflow-hidden border border-white border-opacity-20">
@@ -513,6 +622,7 @@ export default function Dashboard() {
                       <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
                     </svg>
                     Using cached data (API unavailable)
+                    <a href="/status" className="ml-2 underline">Why?</a>
                   </>
                 ) : cacheInfo.cached ? (
                   <>
@@ -533,72 +643,262 @@ export default function Dashboard() {
                   </>
                 )}
               </div>
+              {offlineSince && (
+                <span className="ml-2 inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+                  📴 Offline since {formatTimestamp(offlineSince)}
+                  {offlineSavedAt && ` · showing data saved ${formatTimestamp(offlineSavedAt)}`}
+                </span>
+              )}
+              {liveUpdates && !offlineSince && (
+                <span className="ml-2 inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-white bg-opacity-20 border border-white border-opacity-30">
+                  <span className="w-2 h-2 mr-2 rounded-full bg-green-300 animate-pulse"></span>
+                  Live updates
+                </span>
+              )}
             </div>
           )}
         </div>
 
+        {/* Relief data warning: matching silently drops out without relief actions */}
+        {(!reliefActions || reliefActions.stale) && (
+          <div className="px-8 pt-8">
+            <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-lg">
+              <h3 className="text-amber-800 font-semibold">
+                ⚠️ {reliefActions ? 'Relief matching is using stale data' : 'Relief matching is unavailable'}
+              </h3>
+              <p className="text-sm text-amber-700 mt-1">
+                {reliefActions ? (
+                  <>
+                    The relief actions API is not responding, so emergencies are matched against donations
+                    {reliefActions.lastUpdated ? ` last updated ${formatTimestamp(reliefActions.lastUpdated)}` : ' from an older copy'}.
+                    Newer donations are not shown yet.
+                    {reliefActions.nextRetry && ` Next retry at ${formatTimestamp(reliefActions.nextRetry)}.`}
+                  </>
+                ) : (
+                  <>
+                    Relief actions could not be loaded{reliefError ? ` (${reliefError})` : ''}, so no emergency is matched with a donation
+                    and &quot;Relief Available&quot; may be missing for records that have help nearby.
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Count mode: every report, or repeat reports of the same household counted once */}
+        {duplicateClusters.length > 0 && (
+          <div className="px-8 pt-6 flex flex-wrap items-center gap-3">
+            <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+              {(['reports', 'incidents'] as StatsCountMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setStatsMode(mode)}
+                  className={`px-4 py-1.5 text-sm font-medium ${statsMode === mode ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {mode === 'reports' ? 'Count reports' : 'Count incidents'}
+                </button>
+              ))}
+            </div>
+            <span className="text-sm text-gray-600">
+              🔁 {duplicateReportCount} likely repeat {duplicateReportCount === 1 ? 'report' : 'reports'} in {duplicateClusters.length} {duplicateClusters.length === 1 ? 'cluster' : 'clusters'}
+            </span>
+          </div>
+        )}
+
         {/* Summary Stats */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 p-8">
           <div className="summary-card">
-            <div className="summary-number">{stats.totalEmergencies.toLocaleString()}</div>
-            <div className="summary-label">Total Emergencies</div>
+            <div className="summary-number">{shownStats.totalEmergencies.toLocaleString()}</div>
+            <div className="summary-label">{statsMode === 'incidents' ? 'Total Incidents' : 'Total Emergencies'}</div>
           </div>
           <div className="summary-card">
-            <div className="summary-number">{stats.totalPeople.toLocaleString()}</div>
+            <div className="summary-number">{shownStats.totalPeople.toLocaleString()}</div>
             <div className="summary-label">Total People Affected</div>
           </div>
           <div className="summary-card">
-            <div className="summary-number">{stats.avgPeople}</div>
+            <div className="summary-number">{shownStats.avgPeople}</div>
             <div className="summary-label">Avg People per Emergency</div>
           </div>
           <div className="summary-card">
-            <div className="summary-number">{stats.pendingCount}</div>
+            <div className="summary-number">{shownStats.pendingCount}</div>
             <div className="summary-label">Pending Cases</div>
+            {shownStats.pendingCount > 0 && (
+              <a href="/triage" className="inline-block mt-2 text-sm text-red-600 hover:text-red-800 underline">
+                🚑 Who to visit next
+              </a>
+            )}
           </div>
         </div>
 
+        {/* Changes since last visit */}
+        {changeFeed && changeFeed.baselineAt && (
+          <div className="px-8 pb-8">
+            <div className="stat-card hover:translate-y-0">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-5 pb-2 border-b-4 border-indigo-500">
+                <h3 className="text-xl font-semibold text-gray-800">
+                  🔔 Changes since {changeFeed.since ? 'your last visit' : 'the previous update'}
+                </h3>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-500">Compared with data from {formatTimestamp(changeFeed.baselineAt)}</span>
+                  <button
+                    onClick={() => setChangeFeed(null)}
+                    className="text-sm text-gray-500 hover:text-gray-700 underline"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+
+              {changeFeed.truncated && (
+                <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2 mb-4">
+                  ⚠️ Full history is only available since {formatTimestamp(changeFeed.baselineAt)}. Earlier changes are based on each report&apos;s created and updated times, so status changes and removals from before then aren&apos;t shown.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-5">
+                {[
+                  { label: 'New reports', value: changeFeed.summary.new },
+                  { label: 'Status changed', value: changeFeed.summary.statusChanged },
+                  { label: 'Resolved', value: changeFeed.summary.resolved },
+                  { label: 'Newly matched to relief', value: changeFeed.summary.newlyMatched },
+                  { label: 'Removed', value: changeFeed.summary.removed },
+                ].map(item => (
+                  <div key={item.label} className="stat-item">
+                    <span className="stat-label">{item.label}</span>
+                    <span className="stat-value">{item.value}</span>
+                  </div>
+                ))}
+              </div>
+
+              {changeFeed.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing has changed.</p>
+              ) : (
+                <div className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                  {changeFeed.changes.map(change => {
+                    const emergency = emergencyById[change.id];
+                    return (
+                      <div
+                        key={change.id}
+                        className={`py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 ${emergency ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                        onClick={() => emergency && handleRowClick(emergency)}
+                      >
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{change.placename}</div>
+                          <div className="text-xs text-gray-500">
+                            {change.urgencyLevel} · {change.previousStatus ? `${change.previousStatus} → ${change.status}` : change.status} · updated {formatTimestamp(change.updatedAt)}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                          {change.types.map(type => (
+                            <span
+                              key={type}
+                              className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${changeBadges[type].className}`}
+                            >
+                              {changeBadges[type].label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Detailed Stats Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8 p-8">
           {/* Most Requested Needs */}
           <div className="stat-card">
             <h3 className="text-xl font-semibold text-gray-800 mb-5 pb-2 border-b-4 border-red-500">📋 Most Requested Needs</h3>
             <div className="space-y-2 mb-6">
-              {stats.needsStats.slice(0, 5).map((item, index) => (
+              {shownStats.needsStats.slice(0, 5).map((item, index) => (
                 <div key={index} className="stat-item">
                   <span className="stat-label">{item.label}</span>
                   <span className="stat-value">{item.value}</span>
                 </div>
               ))}
             </div>
-            <BarChart data={createChartData(stats.needsStats)} title="Most Requested Needs" />
+            <BarChart data={createChartData(shownStats.needsStats)} title="Most Requested Needs" />
           </div>
 
           {/* Urgency Level Distribution */}
           <div className="stat-card">
             <h3 className="text-xl font-semibold text-gray-800 mb-5 pb-2 border-b-4 border-orange-500">⚡ Urgency Level Distribution</h3>
             <div className="space-y-2 mb-6">
-              {stats.urgencyStats.map((item, index) => (
+              {shownStats.urgencyStats.map((item, index) => (
                 <div key={index} className="stat-item">
                   <span className="stat-label">{item.label}</span>
                   <span className="stat-value">{item.value}</span>
                 </div>
               ))}
             </div>
-            <DoughnutChart data={createChartData(stats.urgencyStats)} title="Urgency Level Distribution" />
+            <DoughnutChart data={createChartData(shownStats.urgencyStats)} title="Urgency Level Distribution" />
           </div>
 
           {/* Status Distribution */}
           <div className="stat-card">
             <h3 className="text-xl font-semibold text-gray-800 mb-5 pb-2 border-b-4 border-blue-500">📍 Status Distribution</h3>
             <div className="space-y-2 mb-6">
-              {stats.statusStats.map((item, index) => (
+              {shownStats.statusStats.map((item, index) => (
                 <div key={index} className="stat-item">
                   <span className="stat-label">{item.label}</span>
                   <span className="stat-value">{item.value}</span>
                 </div>
               ))}
             </div>
-            <PieChart data={createChartData(stats.statusStats)} title="Status Distribution" />
+            <PieChart data={createChartData(shownStats.statusStats)} title="Status Distribution" />
+          </div>
+        </div>
+
+        {/* Trends */}
+        {trends && (
+          <div className="px-8 pb-8">
+            <div className="stat-card hover:translate-y-0">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-5 pb-2 border-b-4 border-purple-500">
+                <h3 className="text-xl font-semibold text-gray-800">📈 Trends (last {trends.hours} hours)</h3>
+                <span className="text-sm text-gray-500">
+                  Based on {trends.snapshotCount} dataset snapshots
+                </span>
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div>
+                  <LineChart data={createTrendChartData(trends.series.newReportsPerHour, 'New reports')} title="New Reports per Hour" />
+                </div>
+                <div>
+                  <LineChart data={createTrendChartData(trends.series.pendingCount, 'Pending cases')} title="Pending Cases Over Time" />
+                  <div className="text-sm text-center mt-2">{formatTrendChange(trends.series.pendingCount)}</div>
+                </div>
+                <div>
+                  <LineChart data={createTrendChartData(trends.series.peopleAffected, 'People affected')} title="People Affected Over Time" />
+                  <div className="text-sm text-center mt-2">{formatTrendChange(trends.series.peopleAffected)}</div>
+                </div>
+              </div>
+              {trends.snapshotCount < 2 && (
+                <p className="text-xs text-gray-500 mt-4">
+                  Not enough history yet — a snapshot is saved every time fresh data arrives from the upstream API.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Emergency Map */}
+        <div className="px-8 pb-8">
+          <div className="stat-card hover:translate-y-0">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-5 pb-2 border-b-4 border-emerald-500">
+              <h3 className="text-xl font-semibold text-gray-800">🗺️ Emergency Map</h3>
+              <span className="text-sm text-gray-500">
+                Showing the same {mapEmergencies.length} records as the table below
+                {searchQuery && ` (search: "${searchQuery}")`}
+              </span>
+            </div>
+            <EmergencyMap
+              emergencies={mapEmergencies}
+              reliefActions={mapReliefActions}
+              onSelectEmergency={handleRowClick}
+            />
           </div>
         </div>
 
@@ -671,12 +971,73 @@ export default function Dashboard() {
               <div className="mt-3 text-xs text-gray-500">
                 Search across location, contact, urgency, status, needs, notes, and number of people
               </div>
+
+              {/* Export */}
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <span className="text-sm text-gray-600">Export {getPaginatedData(data.data).totalItems} records:</span>
+                {EXPORT_FORMATS.map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    ⬇️ {format === 'geojson' ? 'GeoJSON' : format.toUpperCase()}
+                  </button>
+                ))}
+                <a
+                  href={getExportApiUrl('csv')}
+                  className="text-xs text-blue-600 hover:text-blue-800 underline ml-2"
+                  title="Server export with the same search and sort; change format= to geojson or kml"
+                >
+                  API link
+                </a>
+                <a
+                  href={getFieldSheetsUrl()}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ml-2"
+                  title="Printable per-site sheets with QR codes and a route-ordered summary"
+                >
+                  🖨️ Field sheets ({printSelection.length > 0 ? `${printSelection.length} selected` : getPaginatedData(data.data).totalItems})
+                </a>
+                <a
+                  href={printSelection.length > 0 ? `/routes?ids=${encodeURIComponent(printSelection.join(','))}` : '/routes'}
+                  className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  title="Optimized visiting order for pending emergencies from a relief hub or relief action"
+                >
+                  🗺️ Plan route{printSelection.length > 0 ? ` (${printSelection.length} selected)` : ''}
+                </a>
+                {printSelection.length > 0 && (
+                  <button
+                    onClick={() => setPrintSelection([])}
+                    className="text-xs text-blue-600 hover:text-blue-800 underline"
+                  >
+                    Clear selection
+                  </button>
+                )}
+                {data.quality && data.quality.flagged + data.quality.quarantined > 0 && (
+                  <a
+                    href="/review"
+                    className="text-xs text-yellow-700 hover:text-yellow-900 underline ml-auto"
+                    title="Records flagged or held back by the data-quality rules"
+                  >
+                    🔍 {data.quality.flagged} flagged, {data.quality.quarantined} quarantined records need review
+                  </a>
+                )}
+              </div>
             </div>
             
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gray-50 border-b border-gray-200">
                   <tr>
+                    <th className="pl-6 py-4 text-left" title="Select for field sheets">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all records on this page for field sheets"
+                        checked={getPaginatedData(data.data).data.length > 0 && getPaginatedData(data.data).data.every(emergency => printSelection.includes(emergency.id))}
+                        onChange={e => togglePrintSelection(getPaginatedData(data.data).data.map(emergency => emergency.id), e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
                     <th 
                       className={`px-6 py-4 text-left text-xs font-medium uppercase tracking-wider cursor-pointer hover:text-gray-700 hover:bg-gray-100 transition-colors duration-150 ${
@@ -752,7 +1113,7 @@ export default function Dashboard() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {getPaginatedData(data.data).data.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-12 text-center">
+                      <td colSpan={7} className="px-6 py-12 text-center">
                         <div className="flex flex-col items-center">
                           <svg className="h-12 w-12 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -797,7 +1158,22 @@ export default function Dashboard() {
                         className="hover:bg-gray-50 transition-colors duration-150 cursor-pointer"
                         onClick={() => handleRowClick(emergency)}
                       >
+                        <td className="pl-6 py-4" onClick={e => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${emergency.placename} for field sheets`}
+                            checked={printSelection.includes(emergency.id)}
+                            onChange={e => togglePrintSelection([emergency.id], e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
+                          {formatChangeBadges(changeTypesById[emergency.id])}
+                          {emergency.duplicateClusterId && clusterById[emergency.duplicateClusterId] && (
+                            <span className="inline-flex items-center px-2 py-0.5 mb-1 rounded-full text-xs font-medium border bg-amber-100 text-amber-800 border-amber-200">
+                              🔁 {emergency.duplicateClusterId === emergency.id ? 'Latest of' : 'Repeat, 1 of'} {clusterById[emergency.duplicateClusterId].reportIds.length} reports
+                            </span>
+                          )}
                           {formatLocation(emergency.placename, emergency.latitude, emergency.longitude)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -1128,8 +1504,37 @@ export default function Dashboard() {
                   </div>
                 </div>
 
+                {/* Likely duplicates of this report */}
+                {selectedEmergency.duplicateClusterId && clusterById[selectedEmergency.duplicateClusterId] && (
+                  <div className="flex items-start space-x-3">
+                    <div className="flex-shrink-0">
+                      <div className="w-8 h-8 bg-amber-100 rounded-full flex items-center justify-center text-sm">🔁</div>
+                    </div>
+                    <div className="flex-1">
+                      <h4 className="text-sm font-medium text-gray-900 mb-1">Possible Duplicate Reports</h4>
+                      <p className="text-xs text-gray-500 mb-2">
+                        Grouped by {clusterById[selectedEmergency.duplicateClusterId].reasons.map(reason => duplicateReasonLabels[reason]).join(', ')}; counted as one incident of up to {clusterById[selectedEmergency.duplicateClusterId].numberOfPeople} people
+                      </p>
+                      <div className="space-y-1">
+                        {clusterById[selectedEmergency.duplicateClusterId].reportIds
+                          .filter(id => id !== selectedEmergency.id && emergencyById[id])
+                          .map(id => (
+                            <button
+                              key={id}
+                              onClick={() => handleRowClick(emergencyById[id])}
+                              className="w-full text-left px-3 py-2 rounded-md bg-gray-50 hover:bg-gray-100 text-sm"
+                            >
+                              <span className="font-medium text-gray-900">{formatTimestamp(emergencyById[id].timestamp)}</span>
+                              <span className="text-gray-500"> · {emergencyById[id].numberOfPeople} people · {emergencyById[id].contactno} · {emergencyById[id].status}</span>
+                            </button>
+                          ))}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Relief Action Details */}
-                {selectedEmergency.hasReliefAction && selectedEmergency.reliefActionDetails && (
+                {selectedEmergency.reliefMatches && selectedEmergency.reliefMatches.length > 0 && (
                   <div className="flex items-start space-x-3">
                     <div className="flex-shrink-0">
                       <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
@@ -1140,39 +1545,64 @@ export default function Dashboard() {
                     </div>
                     <div className="flex-1">
                       <h4 className="text-sm font-medium text-gray-900 mb-2">🎁 Relief Action Details</h4>
-                      <div className="bg-green-50 rounded-lg p-4 space-y-2">
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm font-medium text-gray-700">Donor:</span>
-                          <span className="text-sm text-gray-900">{selectedEmergency.reliefActionDetails.DonorName}</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm font-medium text-gray-700">Type:</span>
-                          <span className="text-sm text-gray-900">{selectedEmergency.reliefActionDetails.DonorType}</span>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm font-medium text-gray-700">Items:</span>
-                          <span className="text-sm text-gray-900">{selectedEmergency.reliefActionDetails.DonatedItems.join(', ')}</span>
+
+                      {/* Coverage */}
+                      <div className="mb-3">
+                        <div className="flex justify-between items-center text-sm mb-1">
+                          <span className="font-medium text-gray-700">Coverage (needs and scale):</span>
+                          <span className="text-gray-900">{Math.round((selectedEmergency.coverageScore || 0) * 100)}%</span>
                         </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm font-medium text-gray-700">Status:</span>
-                          <span className="text-sm text-gray-900">{selectedEmergency.reliefActionDetails.Status}</span>
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${selectedEmergency.hasReliefAction ? 'bg-green-500' : 'bg-amber-500'}`}
+                            style={{ width: `${Math.round((selectedEmergency.coverageScore || 0) * 100)}%` }}
+                          />
                         </div>
-                        <div className="flex justify-between items-center">
-                          <span className="text-sm font-medium text-gray-700">Distance:</span>
-                          <span className="text-sm text-gray-900">
-                            {selectedEmergency.reliefActionDistance && selectedEmergency.reliefActionDistance < 1 
-                              ? `${(selectedEmergency.reliefActionDistance * 1000).toFixed(0)}m away`
-                              : `${selectedEmergency.reliefActionDistance?.toFixed(1)}km away`
-                            }
-                          </span>
-                        </div>
-                        {selectedEmergency.reliefActionDetails.ContactNumber && (
-                          <div className="flex justify-between items-center">
-                            <span className="text-sm font-medium text-gray-700">Contact:</span>
-                            <span className="text-sm text-gray-900 font-mono">{selectedEmergency.reliefActionDetails.ContactNumber}</span>
-                          </div>
+                        {selectedEmergency.unmetNeeds && selectedEmergency.unmetNeeds.length > 0 && (
+                          <p className="text-xs text-gray-600 mt-1">
+                            Unmet needs: <span className="font-medium">{selectedEmergency.unmetNeeds.join(', ')}</span>
+                          </p>
                         )}
                       </div>
+
+                      <div className="space-y-3">
+                        {selectedEmergency.reliefMatches.map(match => (
+                          <div key={match.reliefAction.id} className="bg-green-50 rounded-lg p-4 space-y-2">
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm font-medium text-gray-700">Donor:</span>
+                              <span className="text-sm text-gray-900">{match.reliefAction.donorName}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm font-medium text-gray-700">Type:</span>
+                              <span className="text-sm text-gray-900">{match.reliefAction.donorType}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm font-medium text-gray-700">Items:</span>
+                              <span className="text-sm text-gray-900">{match.reliefAction.items.join(', ')}</span>
+                            </div>
+                            {match.matchedNeeds.length > 0 && (
+                              <div className="flex justify-between items-center">
+                                <span className="text-sm font-medium text-gray-700">Covers:</span>
+                                <span className="text-sm text-gray-900">{match.matchedNeeds.join(', ')}</span>
+                              </div>
+                            )}
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm font-medium text-gray-700">Status:</span>
+                              <span className="text-sm text-gray-900">{match.reliefAction.status}</span>
+                            </div>
+                            <div className="flex justify-between items-center">
+                              <span className="text-sm font-medium text-gray-700">Distance:</span>
+                              <span className="text-sm text-gray-900">{formatDistance(match.distance)}</span>
+                            </div>
+                            {match.reliefAction.contactNumber && (
+                              <div className="flex justify-between items-center">
+                                <span className="text-sm font-medium text-gray-700">Contact:</span>
+                                <span className="text-sm text-gray-900 font-mono">{match.reliefAction.contactNumber}</span>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   </div>
                 )}
@@ -1215,16 +1645,8 @@ export default function Dashboard() {
               </div>
 
               {/* Modal Footer */}
-              <div className="mt-6 pt-4 border-t border-gray-200 flex justify-between items-center">
-                <button
-                  onClick={() => handleShareToFacebook(selectedEmergency)}
-                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M24 12.073c0-6.627-5.373-12-12-12s-12 5.373-12 12c0 5.99 4.388 10.954 10.125 11.854v-8.385H7.078v-3.47h3.047V9.43c0-3.007 1.792-4.669 4.533-4.669 1.312 0 2.686.235 2.686.235v2.953H15.83c-1.491 0-1.956.925-1.956 1.874v2.25h3.328l-.532 3.47h-2.796v8.385C19.612 23.027 24 18.062 24 12.073z"/>
-                  </svg>
-                  Share to Facebook
-                </button>
+              <div className="mt-6 pt-4 border-t border-gray-200 flex flex-wrap justify-between items-center gap-3">
+                <ShareButtons emergency={selectedEmergency} source="dashboard" />
                 <button
                   onClick={closeModal}
                   className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -0,0 +1,277 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { DispatchPacket, FieldSheet } from '@/types/emergency';
+import PrintButton from '@/components/PrintButton';
+import { getEmergencies } from '@/utils/dataAccess';
+import { buildDispatchPacket, parseFieldSheetQuery } from '@/utils/fieldSheets';
+import { getPublicBaseUrl } from '@/utils/shareContent';
+
+// Render on every request so the sheets carry the latest data
+export const dynamic = 'force-dynamic';
+
+// Cold loads wait on both upstream APIs, like the dashboard-backed API routes in vercel.json
+export const maxDuration = 90;
+
+export const metadata: Metadata = {
+  title: 'Field Sheets - Cebu Emergency Relief Dashboard',
+};
+
+interface PrintPageProps {
+  searchParams: { [key: string]: string | string[] | undefined };
+}
+
+const urgencyStyles: Record<string, string> = {
+  CRITICAL: 'bg-red-200 text-red-900 border-red-400',
+  HIGH: 'bg-red-100 text-red-800 border-red-300',
+  MEDIUM: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  LOW: 'bg-green-100 text-green-800 border-green-300',
+};
+
+const formatKm = (distanceKm: number) =>
+  distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+
+const formatDateTime = (timestamp?: string | null) => {
+  if (!timestamp) return '—';
+  const date = new Date(timestamp);
+  return isNaN(date.getTime())
+    ? timestamp
+    : date.toLocaleString('en-PH', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Manila' });
+};
+
+const formatCoordinates = (latitude: number, longitude: number) => `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+
+// Function to turn Next.js search params back into URLSearchParams for the shared parsers
+function toSearchParams(searchParams: PrintPageProps['searchParams']): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.keys(searchParams).forEach(key => {
+    const value = searchParams[key];
+    (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach(item => params.append(key, item));
+  });
+  return params;
+}
+
+function RouteSummary({ packet, stale }: { packet: DispatchPacket; stale?: boolean }) {
+  return (
+    <section className="bg-white rounded-2xl shadow-lg p-8 mb-8 print:shadow-none print:rounded-none print:p-0 print:mb-0 break-after-page">
+      <h1 className="text-2xl font-bold text-gray-900">🚨 Dispatch Packet — Route Summary</h1>
+      <p className="text-sm text-gray-600 mt-1">
+        {packet.sheets.length} sites · {packet.totalPeople.toLocaleString()} people · {formatKm(packet.totalKm)} straight-line
+        {packet.start ? ` from ${formatCoordinates(packet.start[0], packet.start[1])}` : ' from stop 1'}
+      </p>
+      <p className="text-xs text-gray-500 mt-1">
+        Printed {formatDateTime(packet.generatedAt)} · Data last updated {formatDateTime(packet.dataLastUpdated)}
+        {stale ? ' · ⚠️ served from stale data' : ''}
+      </p>
+
+      <table className="w-full text-sm mt-6 border-collapse">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase border-b-2 border-gray-300">
+            <th className="py-2 pr-2">Stop</th>
+            <th className="py-2 pr-2">Location</th>
+            <th className="py-2 pr-2">Urgency</th>
+            <th className="py-2 pr-2">People</th>
+            <th className="py-2 pr-2">Contact</th>
+            <th className="py-2 pr-2 text-right">Leg</th>
+            <th className="py-2 pr-2 text-right">Total</th>
+            <th className="py-2">Done</th>
+          </tr>
+        </thead>
+        <tbody>
+          {packet.sheets.map(sheet => (
+            <tr key={sheet.emergency.id} className="border-b border-gray-200 align-top break-inside-avoid">
+              <td className="py-2 pr-2 font-bold">{sheet.stop}</td>
+              <td className="py-2 pr-2">
+                <div className="text-gray-900">{sheet.emergency.placename || 'Location not specified'}</div>
+                <div className="text-xs text-gray-500 font-mono">{formatCoordinates(sheet.emergency.latitude, sheet.emergency.longitude)}</div>
+              </td>
+              <td className="py-2 pr-2">{sheet.emergency.urgencyLevel}</td>
+              <td className="py-2 pr-2">{sheet.emergency.numberOfPeople}</td>
+              <td className="py-2 pr-2 font-mono">{sheet.emergency.contactno || '—'}</td>
+              <td className="py-2 pr-2 text-right whitespace-nowrap">{formatKm(sheet.legKm)}</td>
+              <td className="py-2 pr-2 text-right whitespace-nowrap">{formatKm(sheet.cumulativeKm)}</td>
+              <td className="py-2"><span className="inline-block w-5 h-5 border-2 border-gray-500 rounded-sm" /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function SiteSheet({ sheet, total }: { sheet: FieldSheet; total: number }) {
+  const { emergency, donor } = sheet;
+
+  return (
+    <section className="bg-white rounded-2xl shadow-lg p-8 mb-8 print:shadow-none print:rounded-none print:p-0 print:mb-0 break-after-page last:break-after-auto">
+      <div className="flex items-start justify-between gap-6">
+        <div className="flex-1">
+          <div className="flex items-center gap-3 text-sm text-gray-500">
+            <span className="font-bold text-gray-900">Stop {sheet.stop} of {total}</span>
+            <span className={`px-2 py-0.5 rounded-full border text-xs font-semibold ${urgencyStyles[emergency.urgencyLevel] || 'bg-gray-100 text-gray-800 border-gray-300'}`}>
+              {emergency.urgencyLevel}
+            </span>
+            <span>{formatKm(sheet.legKm)} from the previous stop</span>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mt-2">{emergency.placename || 'Location not specified'}</h2>
+          <p className="font-mono text-gray-700 mt-1">
+            📍 {formatCoordinates(emergency.latitude, emergency.longitude)}
+            {emergency.accuracy ? <span className="text-xs text-gray-500"> (±{Math.round(emergency.accuracy)} m)</span> : null}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">Reported {formatDateTime(emergency.timestamp)} · ID {emergency.id}</p>
+        </div>
+        <div className="text-center flex-shrink-0">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={sheet.qrCode} alt={`QR code for ${sheet.shareUrl}`} width={128} height={128} />
+          <p className="text-xs text-gray-500 mt-1 w-32">Scan for live details</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 mt-6">
+        <div>
+          <h3 className="text-xs font-semibold text-gray-500 uppercase">Contact</h3>
+          <p className="text-xl font-mono text-gray-900">{emergency.contactno || 'No contact number'}</p>
+        </div>
+        <div>
+          <h3 className="text-xs font-semibold text-gray-500 uppercase">People affected</h3>
+          <p className="text-xl text-gray-900">{emergency.numberOfPeople}</p>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Needs checklist</h3>
+        {sheet.checklist.length > 0 ? (
+          <ul className="grid grid-cols-2 gap-2">
+            {sheet.checklist.map((item, index) => (
+              <li key={index} className="flex items-center gap-2 text-gray-900">
+                <span className="inline-block w-5 h-5 border-2 border-gray-500 rounded-sm flex-shrink-0" />
+                <span>{item.need}</span>
+                {item.category.toLowerCase() !== item.need.trim().toLowerCase() && (
+                  <span className="text-xs text-gray-500">({item.category})</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No needs listed</p>
+        )}
+        {emergency.unmetNeeds && emergency.unmetNeeds.length > 0 && (
+          <p className="text-xs text-gray-600 mt-2">Not covered by nearby donations: {emergency.unmetNeeds.join(', ')}</p>
+        )}
+      </div>
+
+      <div className="mt-6">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase mb-1">Additional notes</h3>
+        <p className="text-sm text-gray-800 whitespace-pre-line">
+          {emergency.additionalNotes && emergency.additionalNotes.trim() !== '' ? emergency.additionalNotes : '—'}
+        </p>
+      </div>
+
+      <div className="mt-6 border border-gray-300 rounded-lg p-4 break-inside-avoid">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase mb-1">Matched relief donor</h3>
+        {donor ? (
+          <div className="text-sm text-gray-800 space-y-0.5">
+            <p className="font-semibold">
+              {donor.donorName || 'Unnamed donor'}
+              {donor.donorType ? <span className="font-normal text-gray-500"> ({donor.donorType})</span> : null}
+              {sheet.donorDistanceKm !== null ? <span className="font-normal text-gray-500"> · {formatKm(sheet.donorDistanceKm)} away</span> : null}
+            </p>
+            <p className="font-mono">{donor.contactNumber || 'No contact number'}{donor.email ? ` · ${donor.email}` : ''}</p>
+            {donor.address && <p>{donor.address}</p>}
+            {donor.items.length > 0 && <p className="text-gray-600">Items: {donor.items.join(', ')}</p>}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 italic">No relief action matched yet</p>
+        )}
+      </div>
+
+      <div className="mt-6 break-inside-avoid">
+        <h3 className="text-xs font-semibold text-gray-500 uppercase mb-2">Field notes</h3>
+        <div className="space-y-6">
+          <div className="border-b border-gray-400" />
+          <div className="border-b border-gray-400" />
+          <div className="border-b border-gray-400" />
+        </div>
+        <div className="grid grid-cols-3 gap-6 mt-6 text-sm text-gray-700">
+          <p>Visited at: ____________</p>
+          <p>People reached: ________</p>
+          <p>Team lead: ____________</p>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default async function PrintPage({ searchParams }: PrintPageProps) {
+  const { request, errors } = parseFieldSheetQuery(toSearchParams(searchParams));
+  let packet: DispatchPacket | null = null;
+  let stale = false;
+  let loadError: string | null = null;
+
+  if (errors.length === 0) {
+    try {
+      const emergencies = await getEmergencies();
+      packet = await buildDispatchPacket(emergencies.data, request, getPublicBaseUrl());
+      packet.dataLastUpdated = emergencies.lastUpdated;
+      stale = !!emergencies.stale;
+      console.log(`🖨️ Built field sheets for ${packet.sheets.length} sites (${packet.totalKm.toFixed(1)} km)`);
+    } catch (error) {
+      console.error('Error building field sheets:', error);
+      loadError = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4 print:bg-white print:p-0 print:min-h-0">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6 print:hidden">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">🖨️ Field Sheets</h1>
+            <p className="text-gray-500 text-sm">
+              One page per site in visiting order, after a route summary. Print them, or save as PDF before heading out.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {packet && packet.sheets.length > 0 && <PrintButton />}
+            <Link href="/" className="px-4 py-2 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600">
+              Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800 text-sm print:hidden">
+            Invalid query parameters: {errors.join('; ')}
+          </div>
+        )}
+        {loadError && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800 text-sm print:hidden">
+            Could not load emergency data: {loadError}
+          </div>
+        )}
+        {packet && packet.missingIds.length > 0 && (
+          <div className="mb-6 p-4 rounded-lg bg-yellow-100 text-yellow-800 text-sm print:hidden">
+            ⚠️ {packet.missingIds.length} selected records are no longer in the dataset: {packet.missingIds.join(', ')}
+          </div>
+        )}
+        {packet && packet.omitted > 0 && (
+          <div className="mb-6 p-4 rounded-lg bg-yellow-100 text-yellow-800 text-sm print:hidden">
+            ⚠️ Only the first {packet.sheets.length} matching records are included; {packet.omitted} more were left out. Narrow the search or select records to print the rest.
+          </div>
+        )}
+
+        {packet && packet.sheets.length === 0 && (
+          <p className="p-6 text-center text-gray-500 bg-white rounded-2xl shadow-lg">No emergencies match this selection.</p>
+        )}
+
+        {packet && packet.sheets.length > 0 && (
+          <>
+            <RouteSummary packet={packet} stale={stale} />
+            {packet.sheets.map(sheet => (
+              <SiteSheet key={sheet.emergency.id} sheet={sheet} total={packet?.sheets.length || 0} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Emergency, QualityAction, QualityReviewResponse, QualityRuleId } from '@/types/emergency';
+
+type ReviewTab = 'flagged' | 'quarantined';
+
+const actionStyles: Record<QualityAction, string> = {
+  off: 'bg-gray-100 text-gray-500',
+  flag: 'bg-yellow-100 text-yellow-800',
+  quarantine: 'bg-orange-100 text-orange-800',
+  drop: 'bg-red-100 text-red-800',
+};
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp || '—' : date.toLocaleString();
+};
+
+export default function ReviewPage() {
+  const [review, setReview] = useState<QualityReviewResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<ReviewTab>('flagged');
+  const [ruleFilter, setRuleFilter] = useState<QualityRuleId | 'all'>('all');
+
+  useEffect(() => {
+    const loadReview = async () => {
+      try {
+        const response = await fetch('/api/quality');
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        setReview(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load data-quality review');
+      }
+    };
+
+    loadReview();
+  }, []);
+
+  const records: Emergency[] = review ? review[tab] : [];
+  const visibleRecords = ruleFilter === 'all'
+    ? records
+    : records.filter(emergency => (emergency.qualityIssues || []).some(issue => issue.rule === ruleFilter));
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">🔍 Data-Quality Review</h1>
+            <p className="text-gray-500 text-sm">
+              Records the data-quality rules flagged (still on the dashboard) or quarantined (held back until fixed upstream)
+            </p>
+          </div>
+          <Link href="/" className="px-4 py-2 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600">
+            Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800 text-sm">
+            Could not load the review: {error}
+          </div>
+        )}
+
+        {!review && !error && <p className="text-gray-500">Loading…</p>}
+
+        {review && (
+          <>
+            {review.summary && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                {[
+                  { label: 'Checked', value: review.summary.total },
+                  { label: 'On dashboard', value: review.summary.kept },
+                  { label: 'Flagged', value: review.summary.flagged },
+                  { label: 'Quarantined', value: review.summary.quarantined },
+                  { label: 'Dropped', value: review.summary.dropped },
+                ].map(item => (
+                  <div key={item.label} className="bg-white rounded-xl shadow p-4 text-center">
+                    <div className="text-2xl font-bold text-gray-800">{item.value.toLocaleString()}</div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">{item.label}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+              <h2 className="text-lg font-bold text-gray-800 mb-3">Rules</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2">Rule</th>
+                    <th className="py-2">Checks for</th>
+                    <th className="py-2">Action</th>
+                    <th className="py-2 text-right">Last run</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {review.rules.map(rule => (
+                    <tr key={rule.id} className="border-t border-gray-100">
+                      <td className="py-2 font-mono text-gray-700">{rule.id}</td>
+                      <td className="py-2 text-gray-600">{rule.description}</td>
+                      <td className="py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${actionStyles[rule.action]}`}>{rule.action}</span>
+                      </td>
+                      <td className="py-2 text-right text-gray-700">
+                        {review.summary ? (review.summary.byRule[rule.id] || 0).toLocaleString() : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-gray-500">
+                Change actions with <code>DATA_QUALITY_RULES</code>, e.g. <code>phone-format:off,cebu-bounds:drop</code>.
+              </p>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200">
+                <div className="flex gap-2">
+                  {(['flagged', 'quarantined'] as ReviewTab[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setTab(option)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium capitalize ${
+                        tab === option ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {option} ({review[option].length})
+                    </button>
+                  ))}
+                </div>
+                <select
+                  value={ruleFilter}
+                  onChange={e => setRuleFilter(e.target.value as QualityRuleId | 'all')}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700"
+                >
+                  <option value="all">All rules</option>
+                  {review.rules.map(rule => (
+                    <option key={rule.id} value={rule.id}>{rule.id}</option>
+                  ))}
+                </select>
+              </div>
+
+              {visibleRecords.length === 0 ? (
+                <p className="p-6 text-center text-gray-500">No {tab} records.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="px-4 py-3">Location</th>
+                        <th className="px-4 py-3">People</th>
+                        <th className="px-4 py-3">Contact</th>
+                        <th className="px-4 py-3">Reported</th>
+                        <th className="px-4 py-3">Issues</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleRecords.map(emergency => (
+                        <tr key={emergency.id} className="border-t border-gray-100 align-top">
+                          <td className="px-4 py-3">
+                            {tab === 'flagged' ? (
+                              <Link href={`/share/emergency/${emergency.id}`} className="text-blue-600 hover:underline">
+                                {emergency.placename || emergency.id}
+                              </Link>
+                            ) : (
+                              <span className="text-gray-800">{emergency.placename || emergency.id}</span>
+                            )}
+                            <div className="text-xs text-gray-500">{emergency.latitude}, {emergency.longitude}</div>
+                          </td>
+                          <td className="px-4 py-3 text-gray-800">{emergency.numberOfPeople}</td>
+                          <td className="px-4 py-3 text-gray-800">{emergency.contactno || '—'}</td>
+                          <td className="px-4 py-3 text-gray-600">{formatTimestamp(emergency.timestamp)}</td>
+                          <td className="px-4 py-3">
+                            <ul className="space-y-1">
+                              {(emergency.qualityIssues || []).map(issue => (
+                                <li key={issue.rule}>
+                                  <span className={`px-2 py-0.5 mr-2 rounded-full text-xs font-semibold ${actionStyles[issue.action]}`}>{issue.rule}</span>
+                                  <span className="text-gray-600">{issue.message}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
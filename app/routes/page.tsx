@@ -0,0 +1,334 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Emergency, ReliefAction, RoutePlan } from '@/types/emergency';
+
+const urgencyStyles: Record<string, string> = {
+  CRITICAL: 'bg-red-100 text-red-800',
+  HIGH: 'bg-orange-100 text-orange-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  LOW: 'bg-green-100 text-green-800',
+};
+
+const formatKm = (distanceKm: number) =>
+  distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+
+export default function RoutePlannerPage() {
+  const [emergencies, setEmergencies] = useState<Emergency[]>([]);
+  const [reliefActions, setReliefActions] = useState<ReliefAction[]>([]);
+  const [startMode, setStartMode] = useState<'relief' | 'custom'>('relief');
+  const [reliefActionId, setReliefActionId] = useState<string>('');
+  const [customStart, setCustomStart] = useState<string>('');
+  const [capacity, setCapacity] = useState<string>('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [filter, setFilter] = useState<string>('');
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const planRoute = async (params: URLSearchParams) => {
+    setPlanning(true);
+    try {
+      const response = await fetch(`/api/route-plan?${params.toString()}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(Array.isArray(result.details) ? result.details.join('; ') : result.details || `HTTP error! status: ${response.status}`);
+      }
+
+      setPlan(result);
+      setError(null);
+      // Keep the address bar on the planned route, so reloading or bookmarking brings it back
+      window.history.replaceState(null, '', `/routes?${params.toString()}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan route');
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  useEffect(() => {
+    // A shared route link carries the start, the emergencies and the capacity
+    const params = new URLSearchParams(window.location.search);
+    const ids = (params.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean);
+    setSelected(ids);
+    setCapacity(params.get('capacity') || '');
+    if (params.get('start')) {
+      setStartMode('custom');
+      setCustomStart(params.get('start') || '');
+    } else if (params.get('reliefActionId')) {
+      setReliefActionId(params.get('reliefActionId') || '');
+    }
+
+    if (ids.length > 0 && (params.get('start') || params.get('reliefActionId'))) {
+      planRoute(params);
+    }
+
+    fetch('/api/emergencies?status=pending&sort=urgencyLevel&order=desc')
+      .then(response => response.json())
+      .then(result => setEmergencies(Array.isArray(result.data) ? result.data : []))
+      .catch(err => console.error('Error loading pending emergencies:', err));
+
+    fetch('/api/relief-actions')
+      .then(response => response.json())
+      .then(result => {
+        const actions: ReliefAction[] = Array.isArray(result.data) ? result.data : [];
+        setReliefActions(actions);
+        setReliefActionId(current => current || (actions.length > 0 ? String(actions[0].id) : ''));
+      })
+      .catch(err => console.error('Error loading relief actions:', err));
+  }, []);
+
+  const toggle = (id: string) => {
+    setSelected(current => current.includes(id) ? current.filter(item => item !== id) : current.concat(id));
+  };
+
+  const handlePlan = () => {
+    const params = new URLSearchParams();
+    if (startMode === 'relief') {
+      params.set('reliefActionId', reliefActionId);
+    } else {
+      params.set('start', customStart.replace(/\s+/g, ''));
+    }
+    params.set('ids', selected.join(','));
+    if (capacity.trim()) params.set('capacity', capacity.trim());
+    planRoute(params);
+  };
+
+  const handleCopyLink = async () => {
+    if (!plan) return;
+    try {
+      await navigator.clipboard.writeText(plan.shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying route link:', err);
+      window.prompt('Copy the route link:', plan.shareUrl);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const shown = emergencies.filter(emergency =>
+    !query ||
+    (emergency.placename || '').toLowerCase().includes(query) ||
+    (emergency.needs || []).some(need => need.toLowerCase().includes(query))
+  );
+  const selectedPeople = emergencies
+    .filter(emergency => selected.includes(emergency.id))
+    .reduce((sum, emergency) => sum + (emergency.numberOfPeople || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">🗺️ Route Planner</h1>
+            <p className="text-gray-500 text-sm">
+              Pick a starting point and pending emergencies; stops are ordered by nearest neighbour, then shortened with 2-opt
+            </p>
+          </div>
+          <Link href="/" className="px-4 py-2 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600">
+            Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800 text-sm">
+            Could not plan the route: {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h2 className="text-lg font-bold text-gray-800 mb-3">Start</h2>
+            <div className="flex gap-4 text-sm mb-3">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={startMode === 'relief'} onChange={() => setStartMode('relief')} />
+                Relief action location
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={startMode === 'custom'} onChange={() => setStartMode('custom')} />
+                Relief hub (coordinates)
+              </label>
+            </div>
+            {startMode === 'relief' ? (
+              <select
+                value={reliefActionId}
+                onChange={e => setReliefActionId(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                {reliefActions.length === 0 && <option value="">No relief actions loaded</option>}
+                {reliefActions.map(action => (
+                  <option key={action.id} value={String(action.id)}>
+                    {action.donorName || `Relief action ${action.id}`}{action.address ? ` — ${action.address}` : ''}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={customStart}
+                onChange={e => setCustomStart(e.target.value)}
+                placeholder="Latitude,longitude e.g. 10.3157,123.8854"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono"
+              />
+            )}
+
+            <h2 className="text-lg font-bold text-gray-800 mt-6 mb-3">Capacity</h2>
+            <label className="block text-sm text-gray-700">
+              Most people the team can serve on this trip
+              <input
+                type="number"
+                min={1}
+                value={capacity}
+                onChange={e => setCapacity(e.target.value)}
+                placeholder="No limit"
+                className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+            </label>
+
+            <div className="flex items-center justify-between mt-6 mb-3">
+              <h2 className="text-lg font-bold text-gray-800">Pending emergencies</h2>
+              <span className="text-xs text-gray-500">
+                {selected.length} selected · {selectedPeople.toLocaleString()} people
+              </span>
+            </div>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="text"
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder="Filter by place or need"
+                className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+              />
+              <button
+                onClick={() => setSelected(current => current.concat(shown.map(emergency => emergency.id).filter(id => !current.includes(id))))}
+                className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md text-xs font-medium hover:bg-gray-200"
+              >
+                Select shown
+              </button>
+              <button
+                onClick={() => setSelected([])}
+                className="px-3 py-2 bg-gray-100 text-gray-700 rounded-md text-xs font-medium hover:bg-gray-200"
+              >
+                Clear
+              </button>
+            </div>
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {shown.length === 0 && <li className="p-3 text-sm text-gray-500">No pending emergencies.</li>}
+              {shown.map(emergency => (
+                <li key={emergency.id}>
+                  <label className="flex items-start gap-3 p-3 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(emergency.id)}
+                      onChange={() => toggle(emergency.id)}
+                      className="mt-1"
+                    />
+                    <span className="flex-1">
+                      <span className="text-gray-900">{emergency.placename || emergency.id}</span>
+                      <span className="block text-xs text-gray-500">
+                        {emergency.numberOfPeople} people · {(emergency.needs || []).join(', ') || 'No needs listed'}
+                      </span>
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${urgencyStyles[emergency.urgencyLevel] || 'bg-gray-100 text-gray-800'}`}>
+                      {emergency.urgencyLevel}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            <button
+              onClick={handlePlan}
+              disabled={planning || selected.length === 0 || (startMode === 'relief' ? !reliefActionId : !customStart.trim())}
+              className="mt-4 w-full px-4 py-2 bg-gray-800 text-white rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50"
+            >
+              {planning ? 'Planning…' : `Plan route for ${selected.length} stops`}
+            </button>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h2 className="text-lg font-bold text-gray-800 mb-3">Route</h2>
+            {!plan ? (
+              <p className="text-sm text-gray-500">Pick a start and some emergencies, then plan the route.</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-700">
+                  {plan.stops.length} stops · {formatKm(plan.totalKm)} straight-line · {plan.totalPeople.toLocaleString()} people
+                  {plan.capacity !== null ? ` of ${plan.capacity.toLocaleString()} capacity` : ''}
+                </p>
+                {plan.stale && (
+                  <p className="mt-2 text-xs text-yellow-800">⚠️ Planned from stale data</p>
+                )}
+
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {plan.mapsUrls.map((url, index) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-xs font-medium hover:bg-blue-700"
+                    >
+                      📍 Google Maps{plan.mapsUrls.length > 1 ? ` (part ${index + 1} of ${plan.mapsUrls.length})` : ''}
+                    </a>
+                  ))}
+                  <button
+                    onClick={handleCopyLink}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md text-xs font-medium hover:bg-gray-50"
+                  >
+                    🔗 {copied ? 'Copied!' : 'Copy route link'}
+                  </button>
+                  {plan.stops.length > 0 && (
+                    <a
+                      href={plan.printUrl}
+                      className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-md text-xs font-medium hover:bg-gray-50"
+                    >
+                      🖨️ Field sheets
+                    </a>
+                  )}
+                </div>
+
+                <ol className="mt-4 divide-y divide-gray-100">
+                  <li className="py-2 text-sm text-gray-600">
+                    🚩 Start: {plan.start.label} ({plan.start.latitude.toFixed(5)}, {plan.start.longitude.toFixed(5)})
+                  </li>
+                  {plan.stops.map(stop => (
+                    <li key={stop.emergency.id} className="py-2 flex items-start gap-3 text-sm">
+                      <span className="w-6 font-bold text-gray-800">{stop.order}</span>
+                      <span className="flex-1">
+                        <Link href={`/share/emergency/${stop.emergency.id}`} className="text-blue-600 hover:underline">
+                          {stop.emergency.placename || stop.emergency.id}
+                        </Link>
+                        <span className="block text-xs text-gray-500">
+                          {stop.emergency.urgencyLevel} · {stop.emergency.numberOfPeople} people · {stop.emergency.contactno || 'no contact'}
+                        </span>
+                      </span>
+                      <span className="text-right text-xs text-gray-600 whitespace-nowrap">
+                        +{formatKm(stop.legKm)}
+                        <span className="block text-gray-400">{formatKm(stop.cumulativeKm)} · {stop.cumulativePeople} ppl</span>
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+
+                {plan.skipped.length > 0 && (
+                  <div className="mt-4 p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+                    Over capacity, left for another trip: {plan.skipped.map(emergency => `${emergency.placename || emergency.id} (${emergency.numberOfPeople})`).join(', ')}
+                  </div>
+                )}
+                {plan.missingIds.length > 0 && (
+                  <div className="mt-4 p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+                    No longer in the dataset: {plan.missingIds.join(', ')}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { HealthReport, HealthStatus, SourceHealth } from '@/types/emergency';
+
+const REFRESH_INTERVAL = 30 * 1000;
+
+const statusStyles: Record<HealthStatus, string> = {
+  ok: 'bg-green-100 text-green-800',
+  degraded: 'bg-yellow-100 text-yellow-800',
+  down: 'bg-red-100 text-red-800',
+};
+
+const formatAge = (ageMs: number | null) => {
+  if (ageMs === null) {
+    return '—';
+  }
+
+  const seconds = Math.round(ageMs / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+};
+
+const formatTime = (timestamp: string | null) =>
+  timestamp ? new Date(timestamp).toLocaleString() : '—';
+
+const formatLatency = (latencyMs: number | null) =>
+  latencyMs === null ? '—' : latencyMs < 1000 ? `${latencyMs}ms` : `${(latencyMs / 1000).toFixed(1)}s`;
+
+function StatusPill({ status }: { status: HealthStatus }) {
+  return (
+    <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold uppercase ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+function Row({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div className="flex justify-between gap-4 py-1.5 border-b border-gray-100 last:border-0">
+      <dt className="text-gray-500">{label}</dt>
+      <dd className={`text-right font-medium break-all ${warn ? 'text-red-600' : 'text-gray-800'}`}>{value}</dd>
+    </div>
+  );
+}
+
+function SourceCard({ title, source }: { title: string; source: SourceHealth }) {
+  const { upstream, cache, storage, records } = source;
+  const filteredOut = records.received !== null && records.afterFilter !== null
+    ? records.received - records.afterFilter
+    : null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-bold text-gray-800">{title}</h2>
+        <StatusPill status={source.status} />
+      </div>
+      <p className="text-sm text-gray-500 mb-4 font-mono">{source.envVar}{source.configured ? '' : ' (not set)'}</p>
+
+      <dl className="text-sm">
+        <Row label="Last successful fetch" value={formatTime(upstream.lastSuccessAt)} />
+        <Row label="Last error" value={upstream.lastError ? `${upstream.lastError} (${formatTime(upstream.lastErrorAt)})` : '—'} warn={upstream.consecutiveFailures > 0} />
+        <Row label="Consecutive failures" value={String(upstream.consecutiveFailures)} warn={upstream.consecutiveFailures > 0} />
+        <Row label="Circuit breaker" value={upstream.circuitState} warn={upstream.circuitState !== 'closed'} />
+        <Row label="Fetch latency (last / avg)" value={`${formatLatency(upstream.lastLatencyMs)} / ${formatLatency(upstream.averageLatencyMs)}`} />
+        <Row label="Background retry" value={upstream.retryPending ? `pending, ${formatTime(upstream.nextRetryAt)}` : 'none'} />
+        <Row label="Requests (failed / total)" value={`${upstream.totalFailures} / ${upstream.totalRequests}`} />
+        <Row
+          label="Cache"
+          value={cache.source ? `${cache.source === 'api' ? 'from API' : 'from storage'}, ${formatAge(cache.ageMs)}` : 'empty'}
+          warn={cache.source === 'blob-fallback'}
+        />
+        <Row
+          label="Stored copy"
+          value={storage.error ? `unavailable: ${storage.error}` : storage.savedAt ? `saved ${formatAge(storage.ageMs)}` : 'saved (time unknown)'}
+          warn={Boolean(storage.error)}
+        />
+        <Row label="Records received" value={records.received === null ? '—' : String(records.received)} />
+        <Row
+          label="Records after filtering"
+          value={records.afterFilter === null ? '—' : `${records.afterFilter}${filteredOut ? ` (${filteredOut} dropped)` : ''}`}
+        />
+      </dl>
+    </div>
+  );
+}
+
+export default function StatusPage() {
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      // A 503 still carries the report
+      const response = await fetch('/api/health', { cache: 'no-store' });
+      const data = await response.json();
+
+      if (!data.sources) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load health report');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+    const interval = setInterval(loadReport, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadReport]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">🩺 Data Pipeline Status</h1>
+            <p className="text-gray-500 text-sm">
+              {report ? `Checked ${formatTime(report.generatedAt)} · refreshes every 30 seconds` : 'Loading…'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {report && <StatusPill status={report.status} />}
+            <button
+              onClick={loadReport}
+              className="px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Refresh
+            </button>
+            <Link href="/" className="px-4 py-2 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600">
+              Dashboard
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800 text-sm">
+            Could not load the health report: {error}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <SourceCard title="Emergencies" source={report.sources.emergencies} />
+              <SourceCard title="Relief Actions" source={report.sources.reliefActions} />
+            </div>
+
+            <div className="mt-6 bg-white rounded-2xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-2">Snapshots</h2>
+              <dl className="text-sm">
+                <Row label="Latest snapshot" value={report.snapshots.latestAt ? `${formatTime(report.snapshots.latestAt)} (${formatAge(report.snapshots.ageMs)})` : 'none'} />
+                {report.snapshots.error && <Row label="Error" value={report.snapshots.error} warn />}
+              </dl>
+            </div>
+
+            <p className="mt-6 text-xs text-gray-500">
+              Figures describe the server instance that answered this request. Raw report: <a href="/api/health" className="underline">/api/health</a>
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PriorityFactor, PriorityWeights, TriageResponse } from '@/types/emergency';
+
+const factorInfo: Record<PriorityFactor, { label: string; description: string; color: string }> = {
+  urgency: { label: 'Urgency', description: 'Reported urgency level', color: 'bg-red-500' },
+  people: { label: 'People', description: 'People affected (log scale)', color: 'bg-orange-400' },
+  age: { label: 'Waiting', description: 'Time since the report, up to 3 days', color: 'bg-yellow-400' },
+  unmetNeeds: { label: 'Unmet needs', description: 'Share of needs no nearby donation covers', color: 'bg-purple-500' },
+  reliefDistance: { label: 'Relief distance', description: 'Distance to the nearest relief action, up to 5 km', color: 'bg-blue-500' },
+};
+
+const FACTORS = Object.keys(factorInfo) as PriorityFactor[];
+
+const urgencyStyles: Record<string, string> = {
+  CRITICAL: 'bg-red-100 text-red-800',
+  HIGH: 'bg-orange-100 text-orange-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  LOW: 'bg-green-100 text-green-800',
+};
+
+const formatTimestamp = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+export default function TriagePage() {
+  const [queue, setQueue] = useState<TriageResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [weights, setWeights] = useState<PriorityWeights | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async (overrides?: PriorityWeights) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (overrides) {
+        params.set('weights', FACTORS.map(factor => `${factor}:${overrides[factor]}`).join(','));
+      }
+
+      const response = await fetch(`/api/triage?${params.toString()}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(Array.isArray(result.details) ? result.details.join('; ') : result.details || `HTTP error! status: ${response.status}`);
+      }
+
+      setQueue(result);
+      setWeights(result.weights);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load triage queue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const totalWeight = weights ? FACTORS.reduce((sum, factor) => sum + weights[factor], 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">🚑 Triage Queue</h1>
+            <p className="text-gray-500 text-sm">
+              Pending incidents ranked by priority score; repeat reports are counted once
+            </p>
+          </div>
+          <Link href="/" className="px-4 py-2 bg-red-500 text-white rounded-lg text-sm font-medium hover:bg-red-600">
+            Dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg bg-red-100 text-red-800 text-sm">
+            Could not load the triage queue: {error}
+          </div>
+        )}
+
+        {queue?.stale && (
+          <div className="mb-6 p-4 rounded-lg bg-yellow-100 text-yellow-800 text-sm">
+            ⚠️ Ranked from stale data{queue.dataLastUpdated ? ` last updated ${formatTimestamp(queue.dataLastUpdated)}` : ''}.{' '}
+            <Link href="/status" className="underline">Why?</Link>
+          </div>
+        )}
+
+        {!queue && !error && <p className="text-gray-500">Loading…</p>}
+
+        {weights && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <h2 className="text-lg font-bold text-gray-800 mb-3">Weights</h2>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              {FACTORS.map(factor => (
+                <label key={factor} className="block text-sm">
+                  <span className="flex items-center font-medium text-gray-700">
+                    <span className={`inline-block w-3 h-3 rounded-sm mr-2 ${factorInfo[factor].color}`} />
+                    {factorInfo[factor].label}
+                    <span className="ml-auto text-xs text-gray-500">
+                      {totalWeight > 0 ? Math.round((weights[factor] / totalWeight) * 100) : 0}%
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={weights[factor]}
+                    onChange={e => setWeights({ ...weights, [factor]: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                  <span className="text-xs text-gray-500">{factorInfo[factor].description}</span>
+                </label>
+              ))}
+            </div>
+            <div className="mt-4 flex gap-2">
+              <button
+                onClick={() => loadQueue(weights)}
+                disabled={loading || totalWeight === 0}
+                className="px-4 py-2 bg-gray-800 text-white rounded-lg text-sm font-medium hover:bg-gray-700 disabled:opacity-50"
+              >
+                {loading ? 'Ranking…' : 'Re-rank'}
+              </button>
+              <button
+                onClick={() => loadQueue()}
+                disabled={loading}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50"
+              >
+                Reset to defaults
+              </button>
+            </div>
+            <p className="mt-3 text-xs text-gray-500">
+              Change the defaults with <code>PRIORITY_WEIGHTS</code>, e.g. <code>urgency:0.5,reliefDistance:0</code>.
+            </p>
+          </div>
+        )}
+
+        {queue && (
+          <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+            <div className="p-4 border-b border-gray-200 text-sm text-gray-600">
+              Showing the top {queue.data.length} of {queue.totalPending} pending incidents
+            </div>
+
+            {queue.data.length === 0 ? (
+              <p className="p-6 text-center text-gray-500">No pending incidents.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="px-4 py-3">#</th>
+                      <th className="px-4 py-3">Score</th>
+                      <th className="px-4 py-3">Location</th>
+                      <th className="px-4 py-3">Urgency</th>
+                      <th className="px-4 py-3">People</th>
+                      <th className="px-4 py-3">Why</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {queue.data.map(entry => {
+                      const { emergency } = entry;
+                      const isExpanded = expanded === emergency.id;
+                      const topFactors = entry.components.slice().sort((a, b) => b.points - a.points).slice(0, 2);
+
+                      return (
+                        <tr key={emergency.id} className="border-t border-gray-100 align-top">
+                          <td className="px-4 py-3 font-bold text-gray-800">{entry.rank}</td>
+                          <td className="px-4 py-3 w-48">
+                            <div className="font-semibold text-gray-800">{entry.score.toFixed(1)}</div>
+                            <div className="flex h-2 mt-1 rounded-full overflow-hidden bg-gray-100" title="Points per factor">
+                              {entry.components.map(component => (
+                                <div
+                                  key={component.factor}
+                                  className={factorInfo[component.factor].color}
+                                  style={{ width: `${component.points}%` }}
+                                />
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-4 py-3">
+                            <Link href={`/share/emergency/${emergency.id}`} className="text-blue-600 hover:underline">
+                              {emergency.placename || emergency.id}
+                            </Link>
+                            {entry.duplicateReports > 0 && (
+                              <div className="text-xs text-gray-500">🔁 {entry.duplicateReports + 1} reports</div>
+                            )}
+                            {emergency.contactno && <div className="text-xs text-gray-500 font-mono">{emergency.contactno}</div>}
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${urgencyStyles[emergency.urgencyLevel] || 'bg-gray-100 text-gray-800'}`}>
+                              {emergency.urgencyLevel}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-gray-800">{emergency.numberOfPeople}</td>
+                          <td className="px-4 py-3">
+                            {isExpanded ? (
+                              <ul className="space-y-1">
+                                {entry.components.map(component => (
+                                  <li key={component.factor} className="flex items-start gap-2">
+                                    <span className={`inline-block w-3 h-3 mt-1 rounded-sm ${factorInfo[component.factor].color}`} />
+                                    <span className="w-12 text-right font-mono text-gray-700">+{component.points.toFixed(1)}</span>
+                                    <span className="text-gray-600">{component.detail}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="text-gray-600">{topFactors.map(component => component.detail).join(' · ')}</span>
+                            )}
+                            <button
+                              onClick={() => setExpanded(isExpanded ? null : emergency.id)}
+                              className="block mt-1 text-xs text-blue-600 hover:underline"
+                            >
+                              {isExpanded ? 'Hide breakdown' : 'Show breakdown'}
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,11 @@ import {
   Tooltip,
   Legend,
   ArcElement,
+  LineElement,
+  PointElement,
+  Filler,
 } from 'chart.js';
-import { Bar, Doughnut, Pie } from 'react-chartjs-2';
+import { Bar, Doughnut, Line, Pie } from 'react-chartjs-2';
 import { ChartData } from '@/types/emergency';
 
 ChartJS.register(
@@ -20,7 +23,10 @@ ChartJS.register(
   Title,
   Tooltip,
   Legend,
-  ArcElement
+  ArcElement,
+  LineElement,
+  PointElement,
+  Filler
 );
 
 interface ChartProps {
@@ -182,3 +188,60 @@ export function PieChart({ data, title }: ChartProps) {
     </div>
   );
 }
+
+export function LineChart({ data, title }: ChartProps) {
+  // Line datasets take a single color rather than one per data point
+  const chartData = {
+    ...data,
+    datasets: data.datasets.map(dataset => ({
+      ...dataset,
+      borderColor: dataset.borderColor?.[0] || colors.primaryBorder,
+      backgroundColor: dataset.backgroundColor?.[0] || 'rgba(102, 126, 234, 0.15)',
+      borderWidth: dataset.borderWidth || 2,
+      pointRadius: 2,
+      tension: 0.3,
+      fill: true,
+    })),
+  };
+
+  return (
+    <div className="relative h-64">
+      <Line
+        data={chartData}
+        options={{
+          responsive: true,
+          maintainAspectRatio: false,
+          plugins: {
+            title: {
+              display: true,
+              text: title,
+              font: {
+                size: 16,
+                weight: 'bold',
+              },
+            },
+            legend: {
+              display: false,
+            },
+          },
+          scales: {
+            y: {
+              beginAtZero: true,
+              grid: {
+                color: 'rgba(0, 0, 0, 0.1)',
+              },
+            },
+            x: {
+              grid: {
+                display: false,
+              },
+              ticks: {
+                maxTicksLimit: 8,
+              },
+            },
+          },
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import { Emergency, ReliefAction } from '@/types/emergency';
+
+interface EmergencyMapProps {
+  emergencies: Emergency[];
+  reliefActions: ReliefAction[];
+  onSelectEmergency: (emergency: Emergency) => void;
+}
+
+// Same palette as the urgency badges in the records table
+const urgencyColors: Record<Emergency['urgencyLevel'], string> = {
+  CRITICAL: '#7f1d1d',
+  HIGH: '#dc2626',
+  MEDIUM: '#eab308',
+  LOW: '#16a34a',
+};
+
+const CEBU_CENTER: L.LatLngTuple = [10.3157, 123.8854];
+const DEFAULT_ZOOM = 9;
+
+const reliefIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:22px;height:22px;border-radius:6px;background:#059669;border:2px solid #fff;box-shadow:0 1px 3px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center;font-size:12px;">🎁</div>',
+  iconSize: [22, 22],
+  iconAnchor: [11, 11],
+});
+
+// Escape user-provided text before putting it into Leaflet popup/tooltip HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export default function EmergencyMap({ emergencies, reliefActions, onSelectEmergency }: EmergencyMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const emergencyLayerRef = useRef<L.MarkerClusterGroup | null>(null);
+  const reliefLayerRef = useRef<L.MarkerClusterGroup | null>(null);
+  const lastFittedRef = useRef<string>('');
+  const lastRenderedRef = useRef<string>('');
+
+  // Keep the latest click handler without rebuilding every marker when it changes
+  const onSelectRef = useRef(onSelectEmergency);
+  onSelectRef.current = onSelectEmergency;
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: CEBU_CENTER,
+      zoom: DEFAULT_ZOOM,
+      scrollWheelZoom: false,
+    });
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 19,
+    }).addTo(map);
+
+    emergencyLayerRef.current = L.markerClusterGroup({ maxClusterRadius: 50 }).addTo(map);
+    reliefLayerRef.current = L.markerClusterGroup({ maxClusterRadius: 50 }).addTo(map);
+
+    L.control.layers(undefined, {
+      'Emergencies': emergencyLayerRef.current,
+      'Relief Actions': reliefLayerRef.current,
+    }).addTo(map);
+
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      emergencyLayerRef.current = null;
+      reliefLayerRef.current = null;
+      lastFittedRef.current = '';
+      lastRenderedRef.current = '';
+    };
+  }, []);
+
+  // Sync emergency markers with the currently filtered/sorted records
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = emergencyLayerRef.current;
+    if (!map || !layer) return;
+
+    // The dashboard passes a freshly filtered array on every render; only rebuild markers when the records change
+    const renderSignature = emergencies
+      .map(emergency => `${emergency.id}:${emergency.updatedAt}:${emergency.hasReliefAction ? 1 : 0}`)
+      .sort()
+      .join(',');
+    if (renderSignature === lastRenderedRef.current) return;
+    lastRenderedRef.current = renderSignature;
+
+    layer.clearLayers();
+
+    const markers = emergencies
+      .filter(emergency => Number.isFinite(emergency.latitude) && Number.isFinite(emergency.longitude))
+      .map(emergency => {
+        const marker = L.circleMarker([emergency.latitude, emergency.longitude], {
+          radius: 8,
+          color: '#ffffff',
+          weight: 2,
+          fillColor: urgencyColors[emergency.urgencyLevel] || '#6b7280',
+          fillOpacity: 0.9,
+        });
+
+        marker.bindTooltip(
+          `<strong>${escapeHtml(emergency.urgencyLevel)}</strong> · ${emergency.numberOfPeople} people<br/>${escapeHtml(emergency.placename.substring(0, 60))}`
+        );
+        marker.on('click', () => onSelectRef.current(emergency));
+
+        return marker;
+      });
+
+    layer.addLayers(markers);
+
+    // Only refit when the set of records changes (e.g. a new search), not when it is just re-sorted
+    const signature = emergencies.map(emergency => emergency.id).sort().join(',');
+    if (markers.length > 0 && signature !== lastFittedRef.current) {
+      map.fitBounds(layer.getBounds(), { padding: [30, 30], maxZoom: 15 });
+      lastFittedRef.current = signature;
+    }
+  }, [emergencies]);
+
+  // Sync relief action markers
+  useEffect(() => {
+    const layer = reliefLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+
+    const markers: L.Marker[] = [];
+
+    reliefActions.forEach(reliefAction => {
+      const marker = L.marker([reliefAction.latitude, reliefAction.longitude], { icon: reliefIcon });
+      marker.bindPopup(
+        `<div style="font-size:12px;line-height:1.4">
+          <strong>🎁 ${escapeHtml(reliefAction.donorName || 'Relief Action')}</strong><br/>
+          ${escapeHtml(reliefAction.donorType)}<br/>
+          Items: ${escapeHtml(reliefAction.items.join(', '))}<br/>
+          Status: ${escapeHtml(reliefAction.status)}
+        </div>`
+      );
+
+      markers.push(marker);
+    });
+
+    layer.addLayers(markers);
+  }, [reliefActions]);
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative z-0 h-[28rem] w-full rounded-xl overflow-hidden border border-gray-200" />
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+        {(Object.keys(urgencyColors) as Emergency['urgencyLevel'][]).map(level => (
+          <span key={level} className="inline-flex items-center">
+            <span className="inline-block w-3 h-3 rounded-full mr-1 border border-white shadow" style={{ backgroundColor: urgencyColors[level] }} />
+            {level}
+          </span>
+        ))}
+        <span className="inline-flex items-center">
+          <span className="inline-block w-3 h-3 rounded mr-1 bg-emerald-600 border border-white shadow" />
+          Relief Action
+        </span>
+      </div>
+    </div>
+  );
+}
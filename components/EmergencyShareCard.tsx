@@ -0,0 +1,265 @@
+import { Emergency } from '@/types/emergency';
+import ShareButtons from '@/components/ShareButtons';
+
+interface EmergencyShareCardProps {
+  emergency: Emergency;
+}
+
+// Public view of a single emergency, shared by the share page and its offline fallback
+export default function EmergencyShareCard({ emergency }: EmergencyShareCardProps) {
+  const hasRelief = emergency.hasReliefAction;
+  const distanceText = emergency.reliefActionDistance && emergency.reliefActionDistance < 1 
+    ? `${(emergency.reliefActionDistance * 1000).toFixed(0)}m away`
+    : emergency.reliefActionDistance ? `${emergency.reliefActionDistance.toFixed(1)}km away` : '';
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-4xl mx-auto bg-white rounded-lg shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-red-600 to-orange-600 text-white p-6">
+          <h1 className="text-3xl font-bold mb-2">
+            🚨 Emergency Relief Request
+          </h1>
+          <p className="text-lg opacity-90">
+            {hasRelief ? 'Relief Available' : 'Urgent Help Needed'}
+          </p>
+        </div>
+
+        {/* Emergency Details */}
+        <div className="p-6 space-y-6">
+          {/* Location */}
+          <div className="flex items-start space-x-3">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              </div>
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-gray-900 mb-1">📍 Location</h4>
+              <p className="text-sm text-gray-700">{emergency.placename}</p>
+              <a 
+                href={`https://www.google.com/maps?q=${emergency.latitude},${emergency.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-600 hover:text-blue-800 underline mt-1 inline-block"
+              >
+                View on Map ({emergency.latitude.toFixed(4)}, {emergency.longitude.toFixed(4)})
+              </a>
+            </div>
+          </div>
+
+          {/* People Affected */}
+          <div className="flex items-start space-x-3">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-purple-100 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
+                </svg>
+              </div>
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-gray-900 mb-1">👥 People Affected</h4>
+              <p className="text-sm text-gray-700 font-semibold text-lg">{emergency.numberOfPeople} people</p>
+            </div>
+          </div>
+
+          {/* Urgency Level */}
+          <div className="flex items-start space-x-3">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-yellow-100 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                </svg>
+              </div>
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-gray-900 mb-1">⚡ Urgency Level</h4>
+              <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${
+                emergency.urgencyLevel === 'CRITICAL' ? 'bg-red-200 text-red-900 border-red-300 font-bold' :
+                emergency.urgencyLevel === 'HIGH' ? 'bg-red-100 text-red-800 border-red-200' :
+                emergency.urgencyLevel === 'MEDIUM' ? 'bg-yellow-100 text-yellow-800 border-yellow-200' :
+                'bg-green-100 text-green-800 border-green-200'
+              }`}>
+                {emergency.urgencyLevel}
+              </span>
+            </div>
+          </div>
+
+          {/* Needs */}
+          <div className="flex items-start space-x-3">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-indigo-100 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              </div>
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">🛠️ Required Needs</h4>
+              {emergency.needs && emergency.needs.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {emergency.needs.map((need, index) => (
+                    <span 
+                      key={index}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800"
+                    >
+                      {need}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <span className="text-gray-400 italic">No needs specified</span>
+              )}
+            </div>
+          </div>
+
+          {/* Status */}
+          <div className="flex items-start space-x-3">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-indigo-100 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-gray-900 mb-1">🚩 Current Status</h4>
+              {hasRelief ? (
+                <div className="flex flex-col space-y-1">
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
+                    <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                    </svg>
+                    Relief Available
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {distanceText}
+                  </span>
+                </div>
+              ) : (
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${
+                  emergency.status === 'pending' ? 'bg-orange-100 text-orange-800 border-orange-200' :
+                  emergency.status === 'in-progress' ? 'bg-blue-100 text-blue-800 border-blue-200' :
+                  emergency.status === 'resolved' ? 'bg-green-100 text-green-800 border-green-200' :
+                  'bg-gray-100 text-gray-800 border-gray-200'
+                }`}>
+                  {emergency.status}
+                </span>
+              )}
+            </div>
+          </div>
+
+          {/* Relief Action Details */}
+          {hasRelief && emergency.reliefActionDetails && (
+            <div className="flex items-start space-x-3">
+              <div className="flex-shrink-0">
+                <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-green-600" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                  </svg>
+                </div>
+              </div>
+              <div className="flex-1">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">🎁 Relief Action Details</h4>
+                <div className="bg-green-50 rounded-lg p-4 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-700">Donor:</span>
+                    <span className="text-sm text-gray-900">{emergency.reliefActionDetails.donorName}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-700">Type:</span>
+                    <span className="text-sm text-gray-900">{emergency.reliefActionDetails.donorType}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-700">Items:</span>
+                    <span className="text-sm text-gray-900">{emergency.reliefActionDetails.items.join(', ')}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-700">Status:</span>
+                    <span className="text-sm text-gray-900">{emergency.reliefActionDetails.status}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-700">Distance:</span>
+                    <span className="text-sm text-gray-900">{distanceText}</span>
+                  </div>
+                  {emergency.reliefActionDetails.contactNumber && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-700">Contact:</span>
+                      <span className="text-sm text-gray-900 font-mono">{emergency.reliefActionDetails.contactNumber}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Timestamp */}
+          <div className="flex items-start space-x-3">
+            <div className="flex-shrink-0">
+              <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
+                <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-gray-900 mb-1">⏰ Reported At</h4>
+              <p className="text-sm text-gray-700">{formatTimestamp(emergency.timestamp)}</p>
+            </div>
+          </div>
+
+          {/* Additional Notes */}
+          {emergency.additionalNotes && emergency.additionalNotes.trim() !== '' && (
+            <div className="flex items-start space-x-3">
+              <div className="flex-shrink-0">
+                <div className="w-8 h-8 bg-yellow-100 rounded-full flex items-center justify-center">
+                  <svg className="w-4 h-4 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                </div>
+              </div>
+              <div className="flex-1">
+                <h4 className="text-sm font-medium text-gray-900 mb-2">📝 Additional Notes</h4>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-sm text-gray-700 leading-relaxed">{emergency.additionalNotes}</p>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200">
+          <div className="mb-4">
+            <p className="text-sm text-gray-600 mb-2">Share this emergency to help increase visibility and coordinate relief</p>
+            <ShareButtons emergency={emergency} source="share_page" />
+          </div>
+          <div className="flex justify-end">
+            <a
+              href="/"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              View Full Dashboard
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
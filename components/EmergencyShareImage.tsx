@@ -0,0 +1,194 @@
+import { Emergency } from '@/types/emergency';
+import { categorizeNeeds, getNeedLabel } from '@/utils/needsTaxonomy';
+import { MINI_MAP_RADIUS_KM, MiniMapPoint } from '@/utils/shareImage';
+
+// 1200×630 Open Graph card, rendered to PNG by next/og (flexbox only, inline styles)
+
+interface EmergencyShareImageProps {
+  emergency: Emergency;
+  mapPoints: MiniMapPoint[];
+}
+
+// Same palette as the urgency badges in the records table
+const urgencyColors: Record<Emergency['urgencyLevel'], string> = {
+  CRITICAL: '#7f1d1d',
+  HIGH: '#dc2626',
+  MEDIUM: '#eab308',
+  LOW: '#16a34a',
+};
+
+const MAP_SIZE = 380;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trim()}…` : text;
+
+const formatDistance = (distanceKm: number) =>
+  distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+
+function reliefStatus(emergency: Emergency): { label: string; color: string; background: string } {
+  if (emergency.hasReliefAction) {
+    return {
+      label: `Relief available${emergency.reliefActionDistance !== undefined ? ` ${formatDistance(emergency.reliefActionDistance)} away` : ''}`,
+      color: '#065f46',
+      background: '#d1fae5',
+    };
+  }
+  if (emergency.reliefMatches && emergency.reliefMatches.length > 0) {
+    return { label: 'Partial relief nearby - more help needed', color: '#92400e', background: '#fef3c7' };
+  }
+  return { label: 'No relief yet - help needed', color: '#991b1b', background: '#fee2e2' };
+}
+
+export default function EmergencyShareImage({ emergency, mapPoints }: EmergencyShareImageProps) {
+  const urgencyColor = urgencyColors[emergency.urgencyLevel] || '#6b7280';
+  const status = reliefStatus(emergency);
+  const needs = categorizeNeeds(emergency.needs || []);
+  const reportedAt = new Date(emergency.timestamp);
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', backgroundColor: '#ffffff', fontFamily: 'sans-serif' }}>
+      <div style={{ width: 16, height: '100%', backgroundColor: urgencyColor }} />
+
+      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', padding: '48px 40px 40px 48px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', fontSize: 24, color: '#6b7280', letterSpacing: 2 }}>
+          CEBU EMERGENCY RELIEF
+          <div
+            style={{
+              display: 'flex',
+              marginLeft: 20,
+              padding: '4px 16px',
+              borderRadius: 999,
+              backgroundColor: urgencyColor,
+              color: '#ffffff',
+              fontSize: 22,
+              letterSpacing: 1,
+            }}
+          >
+            {emergency.urgencyLevel}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', marginTop: 24, fontSize: 48, lineHeight: 1.15, color: '#111827' }}>
+          {truncate(emergency.placename || 'Location not specified', 80)}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'baseline', marginTop: 28 }}>
+          <div style={{ display: 'flex', fontSize: 96, color: urgencyColor, lineHeight: 1 }}>
+            {(emergency.numberOfPeople || 0).toLocaleString()}
+          </div>
+          <div style={{ display: 'flex', marginLeft: 16, fontSize: 36, color: '#374151' }}>
+            {emergency.numberOfPeople === 1 ? 'person affected' : 'people affected'}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', flexWrap: 'wrap', marginTop: 24 }}>
+          {(needs.length > 0 ? needs.map(getNeedLabel) : ['No needs listed']).map(label => (
+            <div
+              key={label}
+              style={{
+                display: 'flex',
+                marginRight: 12,
+                marginBottom: 12,
+                padding: '6px 18px',
+                borderRadius: 999,
+                backgroundColor: '#eff6ff',
+                color: '#1e40af',
+                fontSize: 26,
+              }}
+            >
+              {label}
+            </div>
+          ))}
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            marginTop: 'auto',
+            padding: '14px 24px',
+            borderRadius: 16,
+            backgroundColor: status.background,
+            color: status.color,
+            fontSize: 30,
+          }}
+        >
+          {status.label}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', paddingRight: 48 }}>
+        <div
+          style={{
+            position: 'relative',
+            display: 'flex',
+            width: MAP_SIZE,
+            height: MAP_SIZE,
+            borderRadius: 24,
+            overflow: 'hidden',
+            backgroundColor: '#eef2f7',
+            border: '2px solid #d1d5db',
+          }}
+        >
+          {[0.25, 0.5, 0.75].map(line => (
+            <div key={`h${line}`} style={{ position: 'absolute', left: 0, top: MAP_SIZE * line, width: MAP_SIZE, height: 1, backgroundColor: '#d8dee8' }} />
+          ))}
+          {[0.25, 0.5, 0.75].map(line => (
+            <div key={`v${line}`} style={{ position: 'absolute', top: 0, left: MAP_SIZE * line, height: MAP_SIZE, width: 1, backgroundColor: '#d8dee8' }} />
+          ))}
+
+          {mapPoints.map((point, index) => (
+            <div
+              key={index}
+              style={{
+                position: 'absolute',
+                left: point.x * MAP_SIZE - (point.kind === 'relief' ? 9 : 6),
+                top: point.y * MAP_SIZE - (point.kind === 'relief' ? 9 : 6),
+                width: point.kind === 'relief' ? 18 : 12,
+                height: point.kind === 'relief' ? 18 : 12,
+                borderRadius: point.kind === 'relief' ? 4 : 999,
+                backgroundColor: point.kind === 'relief' ? '#059669' : '#9ca3af',
+                border: '2px solid #ffffff',
+              }}
+            />
+          ))}
+
+          <div
+            style={{
+              position: 'absolute',
+              left: MAP_SIZE / 2 - 30,
+              top: MAP_SIZE / 2 - 30,
+              width: 60,
+              height: 60,
+              borderRadius: 999,
+              backgroundColor: urgencyColor,
+              opacity: 0.25,
+            }}
+          />
+          <div
+            style={{
+              position: 'absolute',
+              left: MAP_SIZE / 2 - 13,
+              top: MAP_SIZE / 2 - 13,
+              width: 26,
+              height: 26,
+              borderRadius: 999,
+              backgroundColor: urgencyColor,
+              border: '4px solid #ffffff',
+            }}
+          />
+
+          <div style={{ position: 'absolute', left: 20, bottom: 18, display: 'flex', flexDirection: 'column', fontSize: 16, color: '#4b5563' }}>
+            <div style={{ display: 'flex', width: MAP_SIZE / 4, height: 6, backgroundColor: '#4b5563' }} />
+            <div style={{ display: 'flex', marginTop: 4 }}>{formatDistance(MINI_MAP_RADIUS_KM / 2)}</div>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', marginTop: 16, fontSize: 20, color: '#6b7280' }}>
+          {isNaN(reportedAt.getTime())
+            ? `${emergency.latitude.toFixed(4)}, ${emergency.longitude.toFixed(4)}`
+            : `Reported ${reportedAt.toLocaleDateString('en-PH', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'Asia/Manila' })}`}
+        </div>
+      </div>
+    </div>
+  );
+}
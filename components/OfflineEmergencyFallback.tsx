@@ -0,0 +1,46 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Emergency } from '@/types/emergency';
+import { loadOfflineResponse } from '@/utils/offlineStore';
+import EmergencyShareCard from '@/components/EmergencyShareCard';
+
+interface OfflineEmergencyFallbackProps {
+  children: React.ReactNode;
+}
+
+// Shows the emergency from data saved on this device when the server couldn't provide it
+export default function OfflineEmergencyFallback({ children }: OfflineEmergencyFallbackProps) {
+  const [emergency, setEmergency] = useState<Emergency | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Offline, the service worker serves the same cached page for every share link, so read the id from the URL
+    const id = decodeURIComponent(window.location.pathname.split('/').pop() || '');
+
+    loadOfflineResponse('emergencies')
+      .then(record => {
+        const saved = record?.value.data.find(item => item.id === id);
+        if (record && saved) {
+          setEmergency(saved);
+          setSavedAt(record.savedAt);
+        }
+      })
+      .catch(error => console.error('Error loading offline emergency data:', error));
+  }, []);
+
+  if (!emergency || !savedAt) {
+    return <>{children}</>;
+  }
+
+  return (
+    <>
+      <div className="max-w-4xl mx-auto px-4 pt-8">
+        <div className="bg-yellow-100 text-yellow-800 border border-yellow-200 rounded-lg px-4 py-2 text-sm">
+          📴 Offline copy saved {new Date(savedAt).toLocaleString('en-US')}. Details may have changed since.
+        </div>
+      </div>
+      <EmergencyShareCard emergency={emergency} />
+    </>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+// Opens the browser's print dialog, where "Save as PDF" produces the dispatch packet as a file
+export default function PrintButton() {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="px-4 py-2 bg-gray-800 text-white rounded-lg text-sm font-medium hover:bg-gray-700"
+    >
+      🖨️ Print / Save as PDF
+    </button>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    // Only in production builds; a caching worker gets in the way during development
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    // A new build id changes the script URL, so every deploy installs a worker with its own cache
+    navigator.serviceWorker.register(`/sw.js?v=${encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID || '')}`).catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Emergency, ShareChannel, ShareSource } from '@/types/emergency';
+import { trackEmergencyEvent } from '@/utils/analytics';
+import { SHARE_CHANNELS, buildShareMessage, getShareChannelUrl } from '@/utils/shareChannels';
+
+interface ShareButtonsProps {
+  emergency: Emergency;
+  source: ShareSource; // Where the share started, for analytics
+}
+
+// Channels that open an installed app rather than a web page
+const APP_CHANNELS: ShareChannel[] = ['messenger', 'viber', 'sms'];
+
+// Function to copy text, falling back to a hidden textarea where the Clipboard API isn't available (e.g. plain http)
+async function copyText(text: string): Promise<void> {
+  if (navigator.clipboard && window.isSecureContext) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  document.body.removeChild(textarea);
+
+  if (!copied) {
+    throw new Error('Copy command was rejected');
+  }
+}
+
+// Share actions for one emergency, used in the dashboard's record modal and on the share page
+export default function ShareButtons({ emergency, source }: ShareButtonsProps) {
+  const [canShareNatively, setCanShareNatively] = useState(false);
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  // Feature-detect after mount so the server render and the first client render match
+  useEffect(() => {
+    setCanShareNatively(typeof navigator.share === 'function');
+  }, []);
+
+  useEffect(() => {
+    if (copyState === 'idle') return;
+    const timer = setTimeout(() => setCopyState('idle'), 2000);
+    return () => clearTimeout(timer);
+  }, [copyState]);
+
+  const handleShare = async (channel: ShareChannel) => {
+    const url = `${window.location.origin}/share/emergency/${encodeURIComponent(emergency.id)}`;
+    const message = buildShareMessage(emergency, channel, url);
+
+    if (channel === 'native') {
+      try {
+        await navigator.share({ title: `${emergency.urgencyLevel} emergency in ${emergency.placename}`, text: message, url });
+        trackEmergencyEvent.shareEmergency(channel, source);
+      } catch (error) {
+        // Closing the share sheet rejects with AbortError; that isn't a failure
+        if (!(error instanceof Error && error.name === 'AbortError')) {
+          console.error('Error opening the share sheet:', error);
+        }
+      }
+      return;
+    }
+
+    if (channel === 'copy') {
+      try {
+        await copyText(url);
+        setCopyState('copied');
+        trackEmergencyEvent.shareEmergency(channel, source);
+      } catch (error) {
+        console.error('Error copying share link:', error);
+        setCopyState('failed');
+      }
+      return;
+    }
+
+    const channelUrl = getShareChannelUrl(channel, url, message);
+    if (!channelUrl) return;
+
+    if (APP_CHANNELS.includes(channel)) {
+      window.location.href = channelUrl;
+    } else if (channel === 'facebook') {
+      const popup = window.open(channelUrl, 'facebook-share-dialog', 'width=600,height=400,scrollbars=yes,resizable=yes');
+      if (popup) popup.focus();
+    } else {
+      window.open(channelUrl, '_blank', 'noopener,noreferrer');
+    }
+
+    trackEmergencyEvent.shareEmergency(channel, source);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {SHARE_CHANNELS.filter(channel => channel.id !== 'native' || canShareNatively).map(channel => (
+        <button
+          key={channel.id}
+          type="button"
+          onClick={() => handleShare(channel.id)}
+          className={`inline-flex items-center px-3 py-1.5 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+            channel.id === 'native'
+              ? 'text-white bg-blue-600 hover:bg-blue-700'
+              : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+          }`}
+        >
+          <span className="mr-1.5" aria-hidden="true">{channel.icon}</span>
+          {channel.id === 'copy' && copyState === 'copied'
+            ? 'Copied!'
+            : channel.id === 'copy' && copyState === 'failed'
+              ? 'Copy failed'
+              : channel.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
+// One id per deploy, so the service worker can tell builds apart and drop the previous build's cache
+const buildId = process.env.VERCEL_DEPLOYMENT_ID || process.env.VERCEL_GIT_COMMIT_SHA || Date.now().toString(36)
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // Next.js 14 has app directory enabled by default
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,104 @@
+// Service worker that keeps the dashboard and share pages available offline.
+// Emergency data itself is stored in IndexedDB by the pages (see utils/offlineStore.ts).
+
+// One cache per build (the `v` query the worker is registered with); `activate` deletes the others,
+// so hashed `/_next/static` assets from earlier deploys don't pile up
+const CACHE_NAME = `emergency-dashboard-${new URL(self.location.href).searchParams.get('v') || 'v1'}`;
+const SHARE_FALLBACK_URL = '/share/emergency/offline';
+const PAGE_URLS = ['/', SHARE_FALLBACK_URL];
+const STATIC_URLS = ['/background.png'];
+
+// Function to cache a page together with the scripts and styles it loads
+async function cachePage(cache, url) {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Failed to cache ${url}: ${response.status}`);
+  }
+
+  const html = await response.clone().text();
+  const assets = html.match(/\/_next\/static\/[^"'\\\s)]+/g) || [];
+
+  await cache.put(url, response);
+  await cache.addAll(Array.from(new Set(assets)));
+}
+
+// Function to serve a page from the network, falling back to the last cached copy
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const url = new URL(request.url);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) {
+      return cached;
+    }
+
+    // Share pages that were never opened online render from IndexedDB
+    if (url.pathname.startsWith('/share/emergency/')) {
+      return (await cache.match(SHARE_FALLBACK_URL)) || Response.error();
+    }
+
+    return (await cache.match('/')) || Response.error();
+  }
+}
+
+// Function to serve hashed build assets from the cache when possible
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => Promise.all([
+        ...PAGE_URLS.map((url) => cachePage(cache, url)),
+        cache.addAll(STATIC_URLS),
+      ]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  // Data requests (including the event stream) always go to the network; pages keep their own copy
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/') || STATIC_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
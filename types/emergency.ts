@@ -1,4 +1,5 @@
-export interface Emergency {
+// A report as the upstream API sends it
+export interface EmergencyRecord {
   id: string;
   latitude: number;
   longitude: number;
@@ -13,9 +14,25 @@ export interface Emergency {
   status: 'pending' | 'resolved' | 'in-progress' | 'cancelled';
   createdAt: string;
   updatedAt: string;
+}
+
+// A report with everything the dashboard adds to it
+export interface Emergency extends EmergencyRecord {
   hasReliefAction?: boolean;
   reliefActionDistance?: number;
   reliefActionDetails?: ReliefAction;
+  reliefMatches?: ReliefMatch[];
+  coverageScore?: number;
+  unmetNeeds?: string[];
+  qualityIssues?: QualityIssue[]; // Set by the data-quality rules when a record is flagged or quarantined
+  duplicateClusterId?: string; // Id of the primary report when this record looks like a repeat report
+}
+
+export interface ReliefMatch {
+  reliefAction: ReliefAction;
+  distance: number;
+  matchedNeeds: string[];
+  estimatedPeopleServed: number;
 }
 
 export interface EmergencyResponse {
@@ -28,8 +45,42 @@ export interface EmergencyResponse {
   nextUpdate?: string;
   error?: string;
   cacheSource?: string;
+  pagination?: PaginationInfo;
+  quality?: QualitySummary;
+  validation?: ValidationSummary;
+}
+
+export type EmergencySortField = 'urgencyLevel' | 'numberOfPeople' | 'timestamp' | 'status';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface EmergencyQuery {
+  urgency?: Emergency['urgencyLevel'][];
+  status?: Emergency['status'][];
+  needs?: string[];
+  minPeople?: number;
+  maxPeople?: number;
+  from?: string;
+  to?: string;
+  bbox?: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
+  q?: string;
+  sort?: EmergencySortField;
+  order?: SortDirection;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginationInfo {
+  page: number;
+  limit: number;
+  totalItems: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
 }
 
+export type StatsCountMode = 'reports' | 'incidents';
+
 export interface StatItem {
   label: string;
   value: number;
@@ -56,7 +107,8 @@ export interface DashboardStats {
   statusStats: StatItem[];
 }
 
-export interface ReliefAction {
+// A donation as the upstream API sends it
+export interface ReliefActionRecord {
   DonationID: number;
   DonorName: string;
   DonorType: string;
@@ -78,8 +130,352 @@ export interface ReliefAction {
   UpdatedAt: string;
 }
 
+export type NeedCategory = 'food' | 'water' | 'shelter' | 'medical' | 'clothing' | 'other';
+
+// A donation normalized from the upstream record
+export interface ReliefAction {
+  id: number;
+  donorName: string;
+  donorType: string;
+  contactNumber: string;
+  email: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  items: string[]; // As donated, e.g. "Bottled Water"
+  itemCategories: NeedCategory[]; // The items mapped onto the needs taxonomy
+  donatedAt: string | null; // ISO 8601, null when missing or unparseable
+  pictures: string[];
+  notes: string;
+  status: string;
+  verified: boolean;
+  verifiedBy: string | null;
+  verifiedAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
 export interface ReliefActionsResponse {
   success: boolean;
   data: ReliefAction[];
+  raw?: ReliefActionRecord[]; // Validated upstream records the data was normalized from, only when requested for debugging
+  count: number;
+  cached?: boolean;
+  stale?: boolean;
+  lastUpdated?: string;
+  nextUpdate?: string;
+  nextRetry?: string; // When the upstream API will be retried, while serving stale data
+  error?: string;
+  cacheSource?: string;
+  validation?: ValidationSummary;
+}
+
+export interface SnapshotSummary {
   count: number;
+  pendingCount: number;
+  totalPeople: number;
+  urgencyCounts: Record<string, number>;
+}
+
+export interface SnapshotMeta {
+  id: string;
+  takenAt: string;
+  summary: SnapshotSummary;
+  hasData?: boolean; // Whether the full dataset is still stored, not only the summary
+}
+
+export interface EmergencySnapshot extends SnapshotMeta {
+  data: Emergency[];
+}
+
+export interface TrendPoint {
+  timestamp: string;
+  value: number;
+}
+
+export interface TrendsResponse {
+  success: boolean;
+  generatedAt: string;
+  hours: number;
+  snapshotCount: number;
+  series: {
+    newReportsPerHour: TrendPoint[];
+    pendingCount: TrendPoint[];
+    peopleAffected: TrendPoint[];
+    totalReports: TrendPoint[];
+  };
+}
+
+export type EmergencyChangeType = 'new' | 'status-changed' | 'updated' | 'newly-matched' | 'removed';
+
+export interface EmergencyChange {
+  id: string;
+  types: EmergencyChangeType[];
+  placename: string;
+  urgencyLevel: Emergency['urgencyLevel'];
+  status: Emergency['status'];
+  previousStatus?: Emergency['status'];
+  updatedAt: string;
+}
+
+export interface ChangeSummary {
+  new: number;
+  statusChanged: number;
+  resolved: number;
+  updated: number;
+  newlyMatched: number;
+  removed: number;
+}
+
+export interface ChangeFeedResponse {
+  success: boolean;
+  since: string | null;
+  baselineAt: string | null; // When the dataset version being compared against was taken
+  truncated: boolean; // `since` is older than every stored version; changes before `baselineAt` come from record timestamps
+  currentAt: string | null;
+  summary: ChangeSummary;
+  changes: EmergencyChange[];
+}
+
+export interface DashboardResponse {
+  success: boolean;
+  emergencies: EmergencyResponse;
+  reliefActions: ReliefActionsResponse | null;
+  reliefError?: string; // Why relief actions are missing, when they couldn't be loaded at all
+  stats: DashboardStats; // Every report counted
+  incidentStats: DashboardStats; // Likely duplicate reports counted once
+  duplicateClusters: DuplicateCluster[];
+  generatedAt: string;
+  cached?: boolean;
+  cacheSource?: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface UpstreamStats {
+  name: string;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastSuccessAt: string | null;
+  lastErrorAt: string | null;
+  lastError: string | null;
+  lastLatencyMs: number | null;
+  averageLatencyMs: number | null;
+  nextRetryAt: string | null;
+  retryPending: boolean;
+}
+
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface SourceHealth {
+  status: HealthStatus;
+  envVar: string;
+  configured: boolean;
+  upstream: UpstreamStats;
+  cache: {
+    source: 'api' | 'blob-fallback' | null; // Where the in-memory copy came from
+    lastUpdated: string | null;
+    ageMs: number | null;
+    maxAgeMs: number;
+  };
+  storage: {
+    savedAt: string | null;
+    ageMs: number | null;
+    error?: string;
+  };
+  records: {
+    received: number | null; // In the last upstream response
+    afterFilter: number | null; // After schema validation and the data-quality rules
+  };
+}
+
+export type SourceDiagnostics = Omit<SourceHealth, 'status'>;
+
+export interface HealthReport {
+  status: HealthStatus;
+  generatedAt: string;
+  sources: {
+    emergencies: SourceHealth;
+    reliefActions: SourceHealth;
+  };
+  snapshots: {
+    latestAt: string | null;
+    ageMs: number | null;
+    error?: string;
+  };
+}
+
+export type QualityRuleId =
+  | 'cebu-bounds'
+  | 'people-count'
+  | 'people-missing'
+  | 'people-outlier'
+  | 'empty-needs'
+  | 'phone-format'
+  | 'future-timestamp';
+
+// What happens to a record that breaks a rule: kept with a flag, held back for review, or discarded
+export type QualityAction = 'off' | 'flag' | 'quarantine' | 'drop';
+
+export interface QualityIssue {
+  rule: QualityRuleId;
+  action: Exclude<QualityAction, 'off'>;
+  message: string;
+}
+
+export interface QualitySummary {
+  checkedAt: string;
+  total: number;
+  kept: number; // Including flagged records
+  flagged: number;
+  quarantined: number;
+  dropped: number;
+  byRule: Partial<Record<QualityRuleId, number>>;
+}
+
+export interface QualityRuleInfo {
+  id: QualityRuleId;
+  description: string;
+  action: QualityAction;
+}
+
+export interface QualityReviewResponse {
+  success: boolean;
+  summary: QualitySummary | null;
+  rules: QualityRuleInfo[];
+  flagged: Emergency[];
+  quarantined: Emergency[];
+}
+
+export type DuplicateReason = 'phone' | 'proximity' | 'notes';
+
+export interface DuplicateCluster {
+  id: string; // Id of the primary (most recent) report
+  reportIds: string[]; // Newest first
+  reasons: DuplicateReason[];
+  numberOfPeople: number; // Largest count reported, since repeat reports describe the same people
+  firstReportedAt: string;
+  lastReportedAt: string;
+}
+
+export type ValidationErrorType =
+  | 'not-an-object'
+  | 'missing-field'
+  | 'invalid-type'
+  | 'invalid-number'
+  | 'invalid-enum'
+  | 'invalid-date';
+
+export type CoercionType =
+  | 'number-from-string'
+  | 'number-from-boolean'
+  | 'string-from-number'
+  | 'array-from-string'
+  | 'array-from-null'
+  | 'dropped-array-items'
+  | 'enum-case'
+  | 'date-from-number'
+  | 'default-value';
+
+export interface ValidationSummary {
+  checked: number;
+  accepted: number;
+  rejected: number;
+  errors: Partial<Record<ValidationErrorType, number>>; // Every field problem in rejected records, by type
+  coercions: Partial<Record<CoercionType, number>>; // Fixes applied to accepted records, by type
+  fields: Record<string, number>; // Problems and fixes by field, e.g. "numberOfPeople: invalid-number"
+}
+
+export type PriorityFactor = 'urgency' | 'people' | 'age' | 'unmetNeeds' | 'reliefDistance';
+
+export type PriorityWeights = Record<PriorityFactor, number>;
+
+export interface PriorityComponent {
+  factor: PriorityFactor;
+  value: number; // 0–1, how strongly this factor pushes the report up
+  weight: number;
+  points: number; // Contribution to the 0–100 score
+  detail: string; // e.g. "3 of 4 needs unmet (food, water, medical)"
+}
+
+export interface TriageEntry {
+  rank: number;
+  score: number; // 0–100
+  emergency: Emergency;
+  components: PriorityComponent[];
+  nearestReliefKm: number | null;
+  duplicateReports: number; // Repeat reports folded into this entry
+}
+
+export interface TriageResponse {
+  success: boolean;
+  weights: PriorityWeights;
+  totalPending: number; // Pending incidents before the limit
+  data: TriageEntry[];
+  generatedAt: string;
+  dataLastUpdated?: string;
+  stale?: boolean;
+}
+
+export interface EmergencySharePayload {
+  title: string;
+  description: string;
+  url: string; // Public share page
+  image: string; // Versioned Open Graph image
+  imageAlt: string;
+  emergency: Emergency; // Enriched with relief matches
+}
+
+export type ShareChannel = 'native' | 'facebook' | 'messenger' | 'whatsapp' | 'viber' | 'sms' | 'x' | 'copy';
+
+export type ShareSource = 'dashboard' | 'share_page';
+
+export interface FieldSheet {
+  stop: number; // Position in the route, from 1
+  emergency: Emergency;
+  shareUrl: string;
+  qrCode: string; // SVG data URI of the share URL
+  checklist: { need: string; category: string }[]; // One box per requested need
+  donor: ReliefAction | null; // Closest matched relief action
+  donorDistanceKm: number | null;
+  legKm: number; // From the previous stop, or from the start for the first one
+  cumulativeKm: number;
+}
+
+export interface DispatchPacket {
+  sheets: FieldSheet[];
+  start: [number, number] | null; // Start of the route; the first stop when not given
+  totalKm: number;
+  totalPeople: number;
+  omitted: number; // Matching records left out over the sheet limit
+  missingIds: string[]; // Requested ids that aren't in the dataset
+  generatedAt: string;
+  dataLastUpdated?: string;
+}
+
+export interface RoutePlanStop {
+  order: number; // Position in the route, from 1
+  emergency: Emergency;
+  legKm: number; // From the previous stop, or from the start for the first one
+  cumulativeKm: number;
+  cumulativePeople: number;
+}
+
+export interface RoutePlan {
+  success: boolean;
+  start: { latitude: number; longitude: number; label: string; reliefActionId?: number };
+  stops: RoutePlanStop[];
+  skipped: Emergency[]; // Requested emergencies that don't fit the capacity
+  missingIds: string[]; // Requested ids that aren't in the dataset
+  totalKm: number; // Straight-line, from the start to the last stop
+  totalPeople: number;
+  capacity: number | null;
+  mapsUrls: string[]; // Google Maps directions, split every 10 places
+  shareUrl: string; // Planner with the same start, emergencies and capacity
+  printUrl: string; // Field sheets for the visited stops
+  generatedAt: string;
+  dataLastUpdated?: string;
+  stale?: boolean;
 }
@@ -87,6 +87,25 @@ export const trackEmergencyEvent = {
     });
   },
 
+  // Track data exports
+  exportData: (format: string, recordCount: number) => {
+    event({
+      action: 'export_data',
+      category: 'emergency_dashboard',
+      label: format,
+      value: recordCount,
+    });
+  },
+
+  // Track shares, one event per channel
+  shareEmergency: (channel: string, source: string) => {
+    event({
+      action: `share_${channel}`,
+      category: 'emergency_sharing',
+      label: source,
+    });
+  },
+
   // Track data refresh
   dataRefresh: (cacheSource: string, recordCount: number) => {
     event({
@@ -0,0 +1,238 @@
+import { ChangeFeedResponse, ChangeSummary, Emergency, EmergencyChange, EmergencyChangeType, ReliefAction, SnapshotMeta } from '@/types/emergency';
+import { getDashboardData } from '@/utils/dashboardData';
+import { matchReliefActions } from '@/utils/reliefMatching';
+import { getSnapshotStorage } from '@/utils/snapshotStorage';
+
+// Last computed feed, keyed on the baseline snapshot and the dashboard it was compared with
+let cachedFeed: ChangeFeedResponse | null = null;
+let cachedFeedKey: string = '';
+
+// Whether an emergency has at least one nearby donation covering some of its needs
+function isMatched(emergency: Emergency): boolean {
+  return Boolean(emergency.hasReliefAction || (emergency.reliefMatches && emergency.reliefMatches.length > 0));
+}
+
+// Function to describe a record in the feed
+function toChange(emergency: Emergency, types: EmergencyChangeType[], previous?: Emergency): EmergencyChange {
+  return {
+    id: emergency.id,
+    types,
+    placename: emergency.placename,
+    urgencyLevel: emergency.urgencyLevel,
+    status: emergency.status,
+    previousStatus: previous && previous.status !== emergency.status ? previous.status : undefined,
+    updatedAt: emergency.updatedAt,
+  };
+}
+
+/**
+ * Diff two versions of the emergency dataset by `id`, `status` and `updatedAt`
+ *
+ * Both versions should already be matched with relief actions so newly matched
+ * records can be detected.
+ * @param previous Older dataset version
+ * @param current Newer dataset version
+ * @returns One entry per changed record, most recently updated first
+ */
+export function diffEmergencies(previous: Emergency[], current: Emergency[]): EmergencyChange[] {
+  const previousById = new Map<string, Emergency>();
+  previous.forEach(emergency => previousById.set(emergency.id, emergency));
+
+  const changes: EmergencyChange[] = [];
+  const currentIds = new Set<string>();
+
+  current.forEach(emergency => {
+    currentIds.add(emergency.id);
+    const before = previousById.get(emergency.id);
+
+    if (!before) {
+      changes.push(toChange(emergency, isMatched(emergency) ? ['new', 'newly-matched'] : ['new']));
+      return;
+    }
+
+    const types: EmergencyChangeType[] = [];
+    if (before.status !== emergency.status) {
+      types.push('status-changed');
+    } else if (before.updatedAt !== emergency.updatedAt) {
+      types.push('updated');
+    }
+    if (!isMatched(before) && isMatched(emergency)) {
+      types.push('newly-matched');
+    }
+
+    if (types.length > 0) {
+      changes.push(toChange(emergency, types, before));
+    }
+  });
+
+  // Records that are no longer in the dataset
+  previous.forEach(emergency => {
+    if (!currentIds.has(emergency.id)) {
+      changes.push(toChange(emergency, ['removed']));
+    }
+  });
+
+  return changes.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+/**
+ * Count changes by type
+ * @param changes Changes from diffEmergencies
+ * @returns Change counts
+ */
+export function summarizeChanges(changes: EmergencyChange[]): ChangeSummary {
+  const summary: ChangeSummary = { new: 0, statusChanged: 0, resolved: 0, updated: 0, newlyMatched: 0, removed: 0 };
+
+  changes.forEach(change => {
+    change.types.forEach(type => {
+      if (type === 'new') summary.new++;
+      if (type === 'status-changed') summary.statusChanged++;
+      if (type === 'updated') summary.updated++;
+      if (type === 'newly-matched') summary.newlyMatched++;
+      if (type === 'removed') summary.removed++;
+    });
+    if (change.types.indexOf('status-changed') !== -1 && change.status === 'resolved') {
+      summary.resolved++;
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * Add the records created or updated after `since` that a diff against a later baseline can't see
+ *
+ * Used when `since` is older than every stored dataset version: records created after `since`
+ * count as new and records updated after it as updated, going by their own timestamps.
+ * @param changes Changes from diffEmergencies against the baseline
+ * @param current Current dataset, matched with relief actions
+ * @param since ISO timestamp the user asked for changes since
+ * @returns Changes including the ones from before the baseline, most recently updated first
+ */
+export function addChangesSince(changes: EmergencyChange[], current: Emergency[], since: string): EmergencyChange[] {
+  const sinceTime = new Date(since).getTime();
+  const byId = new Map<string, EmergencyChange>();
+  changes.forEach(change => byId.set(change.id, change));
+
+  const isAfterSince = (value: string) => {
+    const time = new Date(value).getTime();
+    return !isNaN(time) && time > sinceTime;
+  };
+
+  current.forEach(emergency => {
+    const existing = byId.get(emergency.id);
+
+    if (isAfterSince(emergency.createdAt)) {
+      // New since the user's last visit, even if the baseline already had it
+      if (!existing || existing.types.indexOf('new') === -1) {
+        byId.set(emergency.id, toChange(emergency, isMatched(emergency) ? ['new', 'newly-matched'] : ['new']));
+      }
+    } else if (!existing && isAfterSince(emergency.updatedAt)) {
+      byId.set(emergency.id, toChange(emergency, ['updated']));
+    }
+  });
+
+  const merged: EmergencyChange[] = [];
+  byId.forEach(change => merged.push(change));
+  return merged.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+/**
+ * Pick the dataset version to compare the current data against
+ * @param snapshots Snapshot metadata, oldest first
+ * @param since Compare against the data as it was at this time; when omitted, the previous version
+ * @param currentAt When the current dataset was fetched
+ * @returns Baseline snapshot metadata, or null when there is no history to compare against
+ */
+export function findBaselineSnapshot(snapshots: SnapshotMeta[], since?: string, currentAt?: string): SnapshotMeta | null {
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  if (since) {
+    const sinceTime = new Date(since).getTime();
+    const before = snapshots.filter(meta => new Date(meta.takenAt).getTime() <= sinceTime);
+    // Older than all history: compare against the oldest version we have; the feed is marked truncated
+    return before.length > 0 ? before[before.length - 1] : snapshots[0];
+  }
+
+  // The current dataset is saved as a snapshot right after it is fetched, so the previous
+  // version is the last snapshot taken before the current fetch
+  if (!currentAt) {
+    return snapshots.length > 1 ? snapshots[snapshots.length - 2] : null;
+  }
+
+  const currentTime = new Date(currentAt).getTime();
+  const earlier = snapshots.filter(meta => new Date(meta.takenAt).getTime() < currentTime);
+  return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+}
+
+// Function to match a past dataset version with the donations that existed at the time
+function matchAsOf(emergencies: Emergency[], reliefActions: ReliefAction[], takenAt: string): Emergency[] {
+  const takenTime = new Date(takenAt).getTime();
+  const existing = reliefActions.filter(action => action.createdAt !== null && new Date(action.createdAt).getTime() <= takenTime);
+  return existing.length > 0 ? matchReliefActions(emergencies, existing) : emergencies;
+}
+
+/**
+ * Build the change feed between a past dataset version and the current one
+ * @param since ISO timestamp of the user's last visit; when omitted, changes since the previous version
+ * @returns Change feed
+ */
+export async function getChangeFeed(since?: string): Promise<ChangeFeedResponse> {
+  const [dashboard, snapshots] = await Promise.all([getDashboardData(), getSnapshotStorage().list()]);
+  const currentAt = dashboard.emergencies.lastUpdated || null;
+  // Only the newest snapshots keep their full dataset; older ones are summaries for trends
+  const baselineMeta = findBaselineSnapshot(snapshots.filter(meta => meta.hasData), since, currentAt || undefined);
+
+  const emptyFeed: ChangeFeedResponse = {
+    success: true,
+    since: since || null,
+    baselineAt: null,
+    truncated: false,
+    currentAt,
+    summary: summarizeChanges([]),
+    changes: [],
+  };
+
+  if (!baselineMeta) {
+    return emptyFeed;
+  }
+
+  const feedKey = `${baselineMeta.id}|${dashboard.generatedAt}`;
+  let feed: ChangeFeedResponse;
+
+  if (cachedFeed && feedKey === cachedFeedKey) {
+    feed = { ...cachedFeed, since: since || null };
+  } else {
+    const baseline = await getSnapshotStorage().load(baselineMeta.id);
+    if (!baseline) {
+      return emptyFeed;
+    }
+
+    const reliefActions = dashboard.reliefActions?.data || [];
+    const changes = diffEmergencies(
+      matchAsOf(baseline.data, reliefActions, baseline.takenAt),
+      dashboard.emergencies.data
+    );
+
+    feed = {
+      ...emptyFeed,
+      baselineAt: baseline.takenAt,
+      summary: summarizeChanges(changes),
+      changes,
+    };
+
+    cachedFeed = feed;
+    cachedFeedKey = feedKey;
+    console.log(`🔔 Computed change feed against snapshot ${baselineMeta.id}: ${changes.length} changed records`);
+  }
+
+  // `since` is older than every stored version: fill in from the records' own timestamps and say so
+  if (since && feed.baselineAt && new Date(feed.baselineAt).getTime() > new Date(since).getTime()) {
+    const changes = addChangesSince(feed.changes, dashboard.emergencies.data, since);
+    return { ...feed, truncated: true, summary: summarizeChanges(changes), changes };
+  }
+
+  return feed;
+}
@@ -0,0 +1,123 @@
+import { DashboardResponse, EmergencyResponse, ReliefActionsResponse } from '@/types/emergency';
+import { readJsonDocument, writeJsonDocument } from '@/utils/storage';
+import { getEmergencyData } from '@/utils/emergencyData';
+import { getReliefActionsData } from '@/utils/reliefActionsData';
+import { detectDuplicates } from '@/utils/deduplication';
+import { matchReliefActions } from '@/utils/reliefMatching';
+import { generateStatistics } from '@/utils/statistics';
+
+// In-memory cache of the last computed dashboard, keyed on the versions of its source datasets
+let cachedDashboard: DashboardResponse | null = null;
+let cachedSourceVersion: string = '';
+
+const STORAGE_PATH = 'dashboard.json';
+
+// Function to update durable storage with the latest computed dashboard
+async function updateStorage(dashboard: DashboardResponse): Promise<void> {
+  try {
+    console.log('📝 Updating storage with computed dashboard...');
+    await writeJsonDocument(STORAGE_PATH, dashboard);
+    console.log(`✅ Successfully updated storage with dashboard for ${dashboard.emergencies.count} emergencies`);
+  } catch (error) {
+    console.error('❌ Error updating dashboard storage:', error);
+    // Don't throw error - storage update failure shouldn't break the main flow
+  }
+}
+
+// Function to fetch the last computed dashboard from durable storage
+async function fetchFromStorage(): Promise<DashboardResponse> {
+  const dashboard = await readJsonDocument<DashboardResponse>(STORAGE_PATH);
+
+  if (!dashboard.success || !dashboard.emergencies || !Array.isArray(dashboard.emergencies.data)) {
+    throw new Error('Invalid dashboard structure in storage');
+  }
+
+  return dashboard;
+}
+
+// Function to load relief actions without failing the dashboard; without them emergencies just aren't matched
+async function loadReliefActions(): Promise<{ reliefActions: ReliefActionsResponse | null; reliefError?: string }> {
+  try {
+    return { reliefActions: await getReliefActionsData() };
+  } catch (error) {
+    console.error('Error loading relief actions for dashboard:', error);
+    return { reliefActions: null, reliefError: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Load emergencies enriched with relief matches, the relief actions and precomputed statistics
+ *
+ * The result is recomputed only when one of the source datasets changes. If no emergency
+ * data can be loaded at all, the last computed dashboard is served from memory or durable storage.
+ * @returns Dashboard payload
+ */
+export async function getDashboardData(): Promise<DashboardResponse> {
+  let emergencies: EmergencyResponse;
+  let relief: { reliefActions: ReliefActionsResponse | null; reliefError?: string };
+
+  try {
+    // Load both datasets in parallel
+    [emergencies, relief] = await Promise.all([getEmergencyData(), loadReliefActions()]);
+  } catch (error) {
+    console.error('Error loading emergency data for dashboard:', error);
+
+    if (cachedDashboard) {
+      console.log('Serving stale dashboard from memory');
+      return { ...cachedDashboard, cached: true, cacheSource: 'memory-stale' };
+    }
+
+    console.log('Fetching dashboard from storage (fallback)');
+    const storedDashboard = await fetchFromStorage();
+    return {
+      ...storedDashboard,
+      emergencies: { ...storedDashboard.emergencies, stale: true, cacheSource: 'blob-fallback' },
+      cached: true,
+      cacheSource: 'blob-fallback',
+    };
+  }
+
+  const { reliefActions, reliefError } = relief;
+  const sourceVersion = `${emergencies.lastUpdated}|${reliefActions?.lastUpdated || 'none'}`;
+
+  // Reuse the computed result while neither dataset has changed
+  if (cachedDashboard && sourceVersion === cachedSourceVersion) {
+    return {
+      ...cachedDashboard,
+      emergencies: { ...emergencies, data: cachedDashboard.emergencies.data },
+      reliefActions,
+      reliefError,
+      cached: true,
+      cacheSource: 'memory',
+    };
+  }
+
+  const enrichedData = reliefActions && reliefActions.data.length > 0
+    ? matchReliefActions(emergencies.data, reliefActions.data)
+    : emergencies.data;
+
+  // Group repeat reports so stats can count incidents as well as reports
+  const { data: clusteredData, clusters } = detectDuplicates(enrichedData);
+
+  const dashboard: DashboardResponse = {
+    success: true,
+    emergencies: { ...emergencies, data: clusteredData },
+    reliefActions,
+    reliefError,
+    stats: generateStatistics(clusteredData),
+    incidentStats: generateStatistics(clusteredData, 'incidents'),
+    duplicateClusters: clusters,
+    generatedAt: new Date().toISOString(),
+  };
+
+  cachedDashboard = dashboard;
+  cachedSourceVersion = sourceVersion;
+  console.log(`✅ Computed dashboard for ${clusteredData.length} emergencies (${clusters.length} duplicate clusters) and ${reliefActions?.count || 0} relief actions`);
+
+  // Persist results computed from fresh upstream data
+  if (emergencies.cacheSource === 'api' || reliefActions?.cacheSource === 'api') {
+    await updateStorage(dashboard);
+  }
+
+  return { ...dashboard, cached: false, cacheSource: 'computed' };
+}
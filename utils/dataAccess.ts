@@ -0,0 +1,60 @@
+import { DashboardResponse, Emergency, EmergencyResponse } from '@/types/emergency';
+import { getDashboardData } from '@/utils/dashboardData';
+
+// Server-side access to enriched emergencies for routes and server components, so they never call the app's own HTTP API
+
+export interface EmergencyLookup {
+  emergency: Emergency;
+  dashboard: DashboardResponse; // Dataset the emergency was found in, for nearby records and relief actions
+}
+
+// By-id index of the last dataset looked up; rebuilt only when the dashboard hands out a new array
+let indexedData: Emergency[] | null = null;
+let emergencyIndex = new Map<string, Emergency>();
+
+/**
+ * Get the by-id index of an emergency dataset
+ * @param emergencies Emergency records
+ * @returns Records by id; the first record wins if an id repeats
+ */
+export function getEmergencyIndex(emergencies: Emergency[]): Map<string, Emergency> {
+  if (emergencies !== indexedData) {
+    const index = new Map<string, Emergency>();
+    emergencies.forEach(emergency => {
+      if (!index.has(emergency.id)) {
+        index.set(emergency.id, emergency);
+      }
+    });
+
+    indexedData = emergencies;
+    emergencyIndex = index;
+  }
+
+  return emergencyIndex;
+}
+
+/**
+ * Load every emergency, enriched with relief matches and duplicate clusters
+ * @returns Emergency payload, marked stale when served from the last computed dashboard
+ */
+export async function getEmergencies(): Promise<EmergencyResponse> {
+  const dashboard = await getDashboardData();
+
+  if (dashboard.cacheSource === 'memory-stale') {
+    return { ...dashboard.emergencies, stale: true, cacheSource: 'memory-stale' };
+  }
+
+  return dashboard.emergencies;
+}
+
+/**
+ * Look up one enriched emergency by id
+ * @param id Emergency id
+ * @returns The emergency and the dataset it came from, or null if there's no such emergency
+ */
+export async function getEmergencyById(id: string): Promise<EmergencyLookup | null> {
+  const dashboard = await getDashboardData();
+  const emergency = getEmergencyIndex(dashboard.emergencies.data).get(id);
+
+  return emergency ? { emergency, dashboard } : null;
+}
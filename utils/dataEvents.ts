@@ -0,0 +1,42 @@
+// In-process notifications when a dataset gets fresh upstream data
+//
+// Listeners only hear about fetches made by the same server instance, which is
+// why the events stream also refreshes the data itself while clients are connected.
+
+export type DataSource = 'emergencies' | 'relief-actions';
+
+export interface DataUpdateEvent {
+  source: DataSource;
+  count: number;
+  lastUpdated: string;
+}
+
+type DataUpdateListener = (event: DataUpdateEvent) => void;
+
+const listeners = new Set<DataUpdateListener>();
+
+/**
+ * Notify subscribers that a dataset was refreshed from its upstream API
+ * @param event What was refreshed
+ */
+export function publishDataUpdate(event: DataUpdateEvent): void {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error notifying data update listener:', error);
+    }
+  });
+}
+
+/**
+ * Listen for fresh upstream data
+ * @param listener Called with every update
+ * @returns Function that removes the listener
+ */
+export function subscribeToDataUpdates(listener: DataUpdateListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
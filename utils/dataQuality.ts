@@ -0,0 +1,259 @@
+import {
+  Emergency,
+  QualityAction,
+  QualityIssue,
+  QualityRuleId,
+  QualityRuleInfo,
+  QualitySummary,
+} from '@/types/emergency';
+
+// Data-quality rules applied to every emergency record before it reaches the dashboard
+
+// [minLon, minLat, maxLon, maxLat] around Cebu province: Bantayan (~123.6°E) in the west, the Camotes Islands
+// (up to ~124.6°E at Pilar) in the east. A box this size also takes in western Bohol and Leyte's west coast.
+export const CEBU_BOUNDS: [number, number, number, number] = [123.1, 9.3, 124.65, 11.4];
+export const MAX_PEOPLE = 3000; // Above this a count is treated as a data-entry error
+export const OUTLIER_PEOPLE = 500; // Above this a count is plausible but kept out of averages
+const FUTURE_TOLERANCE = 10 * 60 * 1000; // Allow for device clock skew
+
+export interface QualityRule {
+  id: QualityRuleId;
+  description: string;
+  defaultAction: QualityAction;
+  check: (emergency: Emergency, now: number) => string | null; // Problem description, or null if the record passes
+}
+
+export type QualityRuleActions = Record<QualityRuleId, QualityAction>;
+
+export interface QualityResult {
+  kept: Emergency[]; // Clean and flagged records
+  quarantined: Emergency[];
+  dropped: number;
+  summary: QualitySummary;
+}
+
+const QUALITY_ACTIONS: QualityAction[] = ['off', 'flag', 'quarantine', 'drop'];
+
+// Action precedence when a record breaks several rules
+const actionRank: Record<QualityAction, number> = { off: 0, flag: 1, quarantine: 2, drop: 3 };
+
+// Philippine mobile numbers and Cebu landlines, after stripping spaces, dashes, dots and brackets
+const PHONE_PATTERNS = [
+  /^(\+?63|0)9\d{9}$/, // 0917 123 4567, +63 917 123 4567
+  /^(\+?63|0)?32\d{7}$/, // (032) 123 4567
+  /^\d{7}$/, // Local landline without area code
+];
+
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    id: 'cebu-bounds',
+    description: 'Coordinates outside the Cebu region',
+    defaultAction: 'quarantine',
+    check: ({ latitude, longitude }) => {
+      if (typeof latitude !== 'number' || typeof longitude !== 'number' || !isFinite(latitude) || !isFinite(longitude)) {
+        return 'Missing or invalid coordinates';
+      }
+      const [minLon, minLat, maxLon, maxLat] = CEBU_BOUNDS;
+      return longitude < minLon || longitude > maxLon || latitude < minLat || latitude > maxLat
+        ? `Coordinates ${latitude}, ${longitude} are outside the Cebu region`
+        : null;
+    },
+  },
+  {
+    id: 'people-count',
+    description: `People count negative, fractional or above ${MAX_PEOPLE}`,
+    defaultAction: 'quarantine',
+    check: ({ numberOfPeople }) =>
+      typeof numberOfPeople === 'number' && (!Number.isInteger(numberOfPeople) || numberOfPeople < 0 || numberOfPeople > MAX_PEOPLE)
+        ? `People count ${numberOfPeople} is not possible (expected 0–${MAX_PEOPLE})`
+        : null,
+  },
+  {
+    id: 'people-missing',
+    description: 'No people count given, or a count of 0',
+    defaultAction: 'flag',
+    check: ({ numberOfPeople }) =>
+      typeof numberOfPeople !== 'number' || !isFinite(numberOfPeople)
+        ? 'No people count given'
+        : numberOfPeople === 0
+          ? 'People count is 0'
+          : null,
+  },
+  {
+    id: 'people-outlier',
+    description: `People count above ${OUTLIER_PEOPLE} (kept out of the average)`,
+    defaultAction: 'flag',
+    check: ({ numberOfPeople }) =>
+      numberOfPeople > OUTLIER_PEOPLE && numberOfPeople <= MAX_PEOPLE
+        ? `${numberOfPeople} people is unusually high for one report`
+        : null,
+  },
+  {
+    id: 'empty-needs',
+    description: 'No needs listed',
+    defaultAction: 'flag',
+    check: ({ needs }) =>
+      !Array.isArray(needs) || needs.filter(need => typeof need === 'string' && need.trim() !== '').length === 0
+        ? 'No needs listed'
+        : null,
+  },
+  {
+    id: 'phone-format',
+    description: 'Contact number is not a Philippine mobile or Cebu landline number',
+    defaultAction: 'flag',
+    check: ({ contactno }) => {
+      const phone = typeof contactno === 'string' ? contactno.replace(/[\s\-().]/g, '') : '';
+      if (phone === '') {
+        return 'No contact number';
+      }
+      return PHONE_PATTERNS.some(pattern => pattern.test(phone)) ? null : `Contact number "${contactno}" is malformed`;
+    },
+  },
+  {
+    id: 'future-timestamp',
+    description: 'Report or creation time is in the future',
+    defaultAction: 'flag',
+    check: ({ timestamp, createdAt }, now) => {
+      const future = [timestamp, createdAt].filter(value => {
+        const time = value ? new Date(value).getTime() : NaN;
+        return !isNaN(time) && time > now + FUTURE_TOLERANCE;
+      });
+      return future.length > 0 ? `Timestamp ${future[0]} is in the future` : null;
+    },
+  },
+];
+
+/**
+ * Parse rule actions from a `rule:action` list, e.g. `phone-format:off,cebu-bounds:drop`
+ *
+ * Rules that aren't listed keep their default action. Unknown rules or actions are ignored with
+ * a warning so a typo can't stop data from loading.
+ * @param value Comma-separated `rule:action` pairs
+ * @returns Action for every rule
+ */
+export function parseRuleActions(value?: string): QualityRuleActions {
+  const actions = {} as QualityRuleActions;
+  QUALITY_RULES.forEach(rule => {
+    actions[rule.id] = rule.defaultAction;
+  });
+
+  (value || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [id, action] = entry.split(':').map(part => part.trim());
+    if (!QUALITY_RULES.some(rule => rule.id === id) || !QUALITY_ACTIONS.includes(action as QualityAction)) {
+      console.warn(`⚠️ Ignoring invalid data-quality rule setting "${entry}"`);
+      return;
+    }
+    actions[id as QualityRuleId] = action as QualityAction;
+  });
+
+  return actions;
+}
+
+let configuredActions: QualityRuleActions | null = null;
+
+/**
+ * Get the rule actions configured with `DATA_QUALITY_RULES`
+ * @returns Action for every rule
+ */
+export function getRuleActions(): QualityRuleActions {
+  if (!configuredActions) {
+    configuredActions = parseRuleActions(process.env.DATA_QUALITY_RULES);
+  }
+  return configuredActions;
+}
+
+/**
+ * Describe every rule with its configured action
+ * @param actions Rule actions
+ * @returns Rule descriptions for the review page
+ */
+export function describeRules(actions: QualityRuleActions = getRuleActions()): QualityRuleInfo[] {
+  return QUALITY_RULES.map(rule => ({ id: rule.id, description: rule.description, action: actions[rule.id] }));
+}
+
+/**
+ * Check whether a record broke any of the given rules
+ * @param emergency Emergency record
+ * @param rules Rule ids
+ * @returns True if one of the rules attached an issue
+ */
+export function hasQualityIssue(emergency: Emergency, rules: QualityRuleId[]): boolean {
+  return Boolean(emergency.qualityIssues && emergency.qualityIssues.some(issue => rules.includes(issue.rule)));
+}
+
+/**
+ * Run every enabled rule over a dataset
+ *
+ * Each record takes the strictest action among the rules it breaks. Flagged and quarantined
+ * records carry their `qualityIssues`; issues from an earlier run are replaced, so stored data
+ * can be checked again.
+ * @param emergencies Emergency records
+ * @param actions Rule actions
+ * @param now Reference time for future timestamps
+ * @returns Kept and quarantined records, the number dropped, and a summary
+ */
+export function applyQualityRules(
+  emergencies: Emergency[],
+  actions: QualityRuleActions = getRuleActions(),
+  now: number = Date.now()
+): QualityResult {
+  const kept: Emergency[] = [];
+  const quarantined: Emergency[] = [];
+  const byRule: Partial<Record<QualityRuleId, number>> = {};
+  let dropped = 0;
+  let flagged = 0;
+
+  emergencies.forEach(emergency => {
+    const issues: QualityIssue[] = [];
+
+    QUALITY_RULES.forEach(rule => {
+      const action = actions[rule.id];
+      if (action === 'off') {
+        return;
+      }
+
+      const message = rule.check(emergency, now);
+      if (message) {
+        issues.push({ rule: rule.id, action, message });
+        byRule[rule.id] = (byRule[rule.id] || 0) + 1;
+      }
+    });
+
+    const outcome = issues.reduce<QualityAction>(
+      (strictest, issue) => actionRank[issue.action] > actionRank[strictest] ? issue.action : strictest,
+      'off'
+    );
+
+    const checked: Emergency = { ...emergency };
+    delete checked.qualityIssues;
+    if (issues.length > 0) {
+      checked.qualityIssues = issues;
+    }
+
+    if (outcome === 'drop') {
+      dropped++;
+    } else if (outcome === 'quarantine') {
+      quarantined.push(checked);
+    } else {
+      if (outcome === 'flag') {
+        flagged++;
+      }
+      kept.push(checked);
+    }
+  });
+
+  return {
+    kept,
+    quarantined,
+    dropped,
+    summary: {
+      checkedAt: new Date(now).toISOString(),
+      total: emergencies.length,
+      kept: kept.length,
+      flagged,
+      quarantined: quarantined.length,
+      dropped,
+      byRule,
+    },
+  };
+}
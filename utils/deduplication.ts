@@ -0,0 +1,228 @@
+import { DuplicateCluster, DuplicateReason, Emergency } from '@/types/emergency';
+import { calculateHaversineDistance, createSpatialIndex } from '@/utils/geospatial';
+
+// Groups repeat reports of the same household so they can be counted as one incident
+
+export interface DuplicateDetectionOptions {
+  timeWindowHours: number; // Reports further apart than this are separate incidents
+  phoneRadiusKm: number; // Same number this close together: the same household reporting again
+  proximityKm: number; // Different (or no) number this close together...
+  noteSimilarity: number; // ...counts only when the notes are at least this similar (0–1)
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+  timeWindowHours: 48,
+  phoneRadiusKm: 2, // Volunteers report for several sites from one phone, so a shared number alone isn't enough
+  proximityKm: 0.1,
+  noteSimilarity: 0.6,
+};
+
+/**
+ * Normalize a Philippine phone number so "+63 917 123 4567" and "0917-123-4567" compare equal
+ * @param contactno Contact number as reported
+ * @returns Digits in local format, or null if too short to identify anyone
+ */
+export function normalizePhone(contactno: string): string | null {
+  const digits = (contactno || '').replace(/\D/g, '');
+  const local = digits.startsWith('63') && digits.length === 12 ? `0${digits.slice(2)}` : digits;
+  return local.length >= 7 ? local : null;
+}
+
+// Lowercased words of two or more letters
+function tokenize(text: string): Set<string> {
+  const tokens = new Set<string>();
+  ((text || '').toLowerCase().match(/[a-z0-9\u00c0-\u024f]{2,}/g) || []).forEach(token => tokens.add(token));
+  return tokens;
+}
+
+/**
+ * Jaccard similarity between the words of two notes
+ * @param a First note
+ * @param b Second note
+ * @returns 0 (nothing shared, or a note is empty) to 1 (same words)
+ */
+export function noteSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) {
+      shared++;
+    }
+  });
+
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function reportTime(emergency: Emergency): number {
+  const time = new Date(emergency.timestamp || emergency.createdAt).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+/**
+ * Find likely duplicate reports and group them into clusters
+ *
+ * Two reports are linked when they fall within the time window and either share a phone number
+ * within `phoneRadiusKm`, or sit within `proximityKm` of each other with similar notes. Links are
+ * transitive, so a cluster can hold more than two reports.
+ * @param emergencies Emergency records
+ * @param options Detection thresholds
+ * @returns Records (clustered ones carry `duplicateClusterId`) and the clusters with two or more reports
+ */
+export function detectDuplicates(
+  emergencies: Emergency[],
+  options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_OPTIONS
+): { data: Emergency[]; clusters: DuplicateCluster[] } {
+  const windowMs = options.timeWindowHours * 60 * 60 * 1000;
+  const times = emergencies.map(reportTime);
+  const parents = emergencies.map((_, index) => index);
+  const pairReasons = new Map<string, DuplicateReason[]>();
+
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  const link = (a: number, b: number, reasons: DuplicateReason[]) => {
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const existing = pairReasons.get(key) || [];
+    reasons.forEach(reason => {
+      if (!existing.includes(reason)) {
+        existing.push(reason);
+      }
+    });
+    pairReasons.set(key, existing);
+    parents[find(a)] = find(b);
+  };
+
+  const withinWindow = (a: number, b: number) => Math.abs(times[a] - times[b]) <= windowMs;
+
+  // Same phone number, close enough to be the same household
+  const byPhone = new Map<string, number[]>();
+  emergencies.forEach((emergency, index) => {
+    const phone = normalizePhone(emergency.contactno);
+    if (phone) {
+      byPhone.set(phone, (byPhone.get(phone) || []).concat(index));
+    }
+  });
+  byPhone.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = emergencies[indexes[i]];
+        const b = emergencies[indexes[j]];
+        if (!withinWindow(indexes[i], indexes[j])) continue;
+
+        const distance = calculateHaversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+        if (distance <= options.phoneRadiusKm) {
+          link(indexes[i], indexes[j], distance <= options.proximityKm ? ['phone', 'proximity'] : ['phone']);
+        }
+      }
+    }
+  });
+
+  // Different or missing numbers: neighbours describing the same situation
+  const index = createSpatialIndex(
+    emergencies.map((emergency, position) => ({ emergency, position })),
+    ({ emergency }) => [emergency.latitude, emergency.longitude],
+    options.proximityKm
+  );
+  emergencies.forEach((emergency, position) => {
+    index.withinRadius(emergency.latitude, emergency.longitude, options.proximityKm).forEach(({ item }) => {
+      if (item.position <= position || !withinWindow(position, item.position)) return;
+      if (noteSimilarity(emergency.additionalNotes, item.emergency.additionalNotes) >= options.noteSimilarity) {
+        link(position, item.position, ['proximity', 'notes']);
+      }
+    });
+  });
+
+  // Collect the members and reasons of every cluster
+  const members = new Map<number, number[]>();
+  emergencies.forEach((_, position) => {
+    const root = find(position);
+    members.set(root, (members.get(root) || []).concat(position));
+  });
+
+  const clusterReasons = new Map<number, DuplicateReason[]>();
+  pairReasons.forEach((reasons, key) => {
+    const root = find(Number(key.split(':')[0]));
+    const existing = clusterReasons.get(root) || [];
+    reasons.forEach(reason => {
+      if (!existing.includes(reason)) {
+        existing.push(reason);
+      }
+    });
+    clusterReasons.set(root, existing);
+  });
+
+  const clusterIds = new Map<number, string>();
+  const clusters: DuplicateCluster[] = [];
+  members.forEach((positions, root) => {
+    if (positions.length < 2) return;
+
+    const newestFirst = positions.slice().sort((a, b) => times[b] - times[a]);
+    const primary = emergencies[newestFirst[0]];
+    clusterIds.set(root, primary.id);
+    clusters.push({
+      id: primary.id,
+      reportIds: newestFirst.map(position => emergencies[position].id),
+      reasons: clusterReasons.get(root) || [],
+      numberOfPeople: Math.max.apply(null, positions.map(position => emergencies[position].numberOfPeople || 0)),
+      firstReportedAt: new Date(times[newestFirst[newestFirst.length - 1]]).toISOString(),
+      lastReportedAt: new Date(times[newestFirst[0]]).toISOString(),
+    });
+  });
+
+  const data = emergencies.map((emergency, position) => {
+    const clusterId = clusterIds.get(find(position));
+    return clusterId ? { ...emergency, duplicateClusterId: clusterId } : emergency;
+  });
+
+  clusters.sort((a, b) => b.reportIds.length - a.reportIds.length || b.lastReportedAt.localeCompare(a.lastReportedAt));
+  return { data, clusters };
+}
+
+/**
+ * Count each duplicate cluster once
+ *
+ * The primary report stands in for its cluster, with the largest people count and every need
+ * mentioned across the repeat reports. Records without a cluster are kept as they are.
+ * @param emergencies Records annotated by `detectDuplicates`
+ * @returns One record per incident
+ */
+export function collapseDuplicates(emergencies: Emergency[]): Emergency[] {
+  const clustered = new Map<string, Emergency[]>();
+  emergencies.forEach(emergency => {
+    if (emergency.duplicateClusterId) {
+      clustered.set(emergency.duplicateClusterId, (clustered.get(emergency.duplicateClusterId) || []).concat(emergency));
+    }
+  });
+
+  return emergencies
+    .filter(emergency => !emergency.duplicateClusterId || emergency.duplicateClusterId === emergency.id)
+    .map(emergency => {
+      const reports = emergency.duplicateClusterId ? clustered.get(emergency.duplicateClusterId) || [] : [];
+      if (reports.length < 2) {
+        return emergency;
+      }
+
+      const needs: string[] = [];
+      reports.forEach(report => (report.needs || []).forEach(need => {
+        if (!needs.includes(need)) {
+          needs.push(need);
+        }
+      }));
+
+      return {
+        ...emergency,
+        numberOfPeople: Math.max.apply(null, reports.map(report => report.numberOfPeople || 0)),
+        needs,
+      };
+    });
+}
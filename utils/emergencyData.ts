@@ -0,0 +1,267 @@
+import { Emergency, EmergencyRecord, EmergencyResponse, QualityReviewResponse, SourceDiagnostics } from '@/types/emergency';
+import { applyQualityRules, describeRules } from '@/utils/dataQuality';
+import { EMERGENCY_SCHEMA, validateRecords } from '@/utils/recordValidation';
+import { getStorage, readJsonDocument, writeJsonDocument } from '@/utils/storage';
+import { publishDataUpdate } from '@/utils/dataEvents';
+import { recordSnapshot } from '@/utils/snapshotStorage';
+import { createUpstreamClient } from '@/utils/upstreamClient';
+
+// In-memory cache for API responses (works within the same function instance)
+let cachedData: EmergencyResponse | null = null;
+let lastFetchTime: number = 0;
+let cachedFrom: 'api' | 'blob-fallback' | null = null;
+export const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+
+// Record counts from the last upstream response, for the health report
+let lastRecordCounts: { received: number; afterFilter: number } | null = null;
+
+// Records held back by the data-quality rules in the last run
+let lastQuarantined: Emergency[] = [];
+
+const STORAGE_PATH = 'emergencies.json';
+
+// Function to run the data-quality rules, keeping quarantined records for the review page
+function applyDataQuality(data: EmergencyResponse): EmergencyResponse {
+  const { kept, quarantined, summary } = applyQualityRules(data.data);
+  lastQuarantined = quarantined;
+
+  if (summary.flagged + summary.quarantined + summary.dropped > 0) {
+    console.log(`🔍 Data-quality rules: ${summary.flagged} flagged, ${summary.quarantined} quarantined, ${summary.dropped} dropped of ${summary.total} emergency records`);
+  }
+
+  return {
+    success: data.success,
+    data: kept,
+    count: kept.length,
+    quality: summary,
+    validation: data.validation,
+  };
+}
+
+// Function to update durable storage with the validated upstream response, so the rules run again on fallback
+async function updateStorage(data: EmergencyResponse, savedAt: number): Promise<void> {
+  try {
+    console.log('📝 Updating storage with fresh emergency data...');
+    await writeJsonDocument(STORAGE_PATH, { ...data, lastUpdated: new Date(savedAt).toISOString() });
+    console.log(`✅ Successfully updated ${getStorage().name} storage with ${data.count} emergency records`);
+  } catch (error) {
+    console.error('❌ Error updating storage:', error);
+    // Don't throw error - storage update failure shouldn't break the main flow
+  }
+}
+
+// Function to keep a timestamped snapshot of every successful upstream fetch for trends
+async function saveSnapshot(data: EmergencyResponse): Promise<void> {
+  try {
+    const snapshot = await recordSnapshot(data.data);
+    console.log(`🗂️ Saved emergency snapshot ${snapshot.id}`);
+  } catch (error) {
+    console.error('❌ Error saving emergency snapshot:', error);
+    // Don't throw error - snapshot failure shouldn't break the main flow
+  }
+}
+
+// Function to fetch emergency data from durable storage
+async function fetchFromStorage(): Promise<EmergencyResponse> {
+  try {
+    console.log(`Fetching emergency data from ${getStorage().name} storage`);
+
+    const emergencyData = await readJsonDocument<EmergencyResponse>(STORAGE_PATH);
+
+    if (!emergencyData.success || !emergencyData.data || !Array.isArray(emergencyData.data)) {
+      throw new Error('Invalid data structure in storage');
+    }
+
+    const checkedData = applyDataQuality(emergencyData);
+
+    console.log(`Successfully loaded ${emergencyData.count} emergency records from storage (${checkedData.count} after data-quality rules)`);
+    return checkedData;
+  } catch (error) {
+    console.error('Error fetching from storage:', error);
+    throw new Error('Failed to load emergency data from storage');
+  }
+}
+
+// Function to check the shape of an upstream response, then validate each record against the schema
+function validateEmergencyResponse(payload: unknown): EmergencyResponse {
+  const data = payload as { success?: boolean; data?: unknown };
+
+  if (!data || !data.success || !data.data || !Array.isArray(data.data)) {
+    throw new Error('Invalid API response structure');
+  }
+
+  const { valid, summary } = validateRecords<EmergencyRecord>(data.data, EMERGENCY_SCHEMA);
+  if (summary.rejected > 0 || Object.keys(summary.coercions).length > 0) {
+    console.log(`🧪 Schema validation: ${summary.rejected} rejected, ${summary.accepted} accepted of ${summary.checked} emergency records`, summary.fields);
+  }
+
+  return { success: true, count: valid.length, data: valid, validation: summary };
+}
+
+// Shared client: the API can take 267s+ when it is struggling, so back off for minutes, not seconds
+const emergencyClient = createUpstreamClient<EmergencyResponse>({
+  name: 'Emergencies',
+  envVar: 'VICTIM_REPORTS_API',
+  validate: validateEmergencyResponse,
+  onData: data => acceptFreshData(data),
+  timeout: 30000,
+  baseBackoff: 5 * 60 * 1000,
+  maxBackoff: 30 * 60 * 1000,
+});
+
+// Function to check, cache and persist a fresh upstream response
+async function acceptFreshData(data: EmergencyResponse): Promise<void> {
+  cachedData = applyDataQuality(data);
+  lastFetchTime = Date.now();
+  cachedFrom = 'api';
+  lastRecordCounts = { received: data.validation ? data.validation.checked : data.data.length, afterFilter: cachedData.count };
+
+  console.log(`✅ Upstream API returned ${data.count} emergency records (${cachedData.count} after data-quality rules) in ${emergencyClient.stats().lastLatencyMs}ms`);
+
+  // Update durable storage with fresh data
+  await updateStorage(data, lastFetchTime);
+  await saveSnapshot(cachedData);
+  publishDataUpdate({ source: 'emergencies', count: cachedData.count, lastUpdated: new Date(lastFetchTime).toISOString() });
+}
+
+/**
+ * Describe the emergency pipeline for the health report, without triggering a fetch
+ * @returns Upstream stats, cache and storage ages, and record counts
+ */
+export async function getEmergencyDiagnostics(): Promise<SourceDiagnostics> {
+  const now = Date.now();
+  let storage: SourceDiagnostics['storage'] = { savedAt: null, ageMs: null };
+
+  try {
+    const stored = await readJsonDocument<EmergencyResponse>(STORAGE_PATH);
+    storage = {
+      savedAt: stored.lastUpdated || null, // Copies written before savedAt was recorded have none
+      ageMs: stored.lastUpdated ? now - new Date(stored.lastUpdated).getTime() : null,
+    };
+  } catch (error) {
+    storage.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return {
+    envVar: 'VICTIM_REPORTS_API',
+    configured: Boolean(process.env.VICTIM_REPORTS_API),
+    upstream: emergencyClient.stats(),
+    cache: {
+      source: cachedData ? cachedFrom : null,
+      lastUpdated: cachedData ? new Date(lastFetchTime).toISOString() : null,
+      ageMs: cachedData ? now - lastFetchTime : null,
+      maxAgeMs: CACHE_DURATION,
+    },
+    storage,
+    records: {
+      received: lastRecordCounts ? lastRecordCounts.received : null,
+      afterFilter: lastRecordCounts ? lastRecordCounts.afterFilter : null,
+    },
+  };
+}
+
+/**
+ * List the records the data-quality rules flagged or quarantined in the last run
+ * @returns Rule settings, summary, and the flagged and quarantined records
+ */
+export async function getQualityReview(): Promise<QualityReviewResponse> {
+  const data = await getEmergencyData();
+
+  return {
+    success: true,
+    summary: data.quality || null,
+    rules: describeRules(),
+    flagged: data.data.filter(emergency => emergency.qualityIssues && emergency.qualityIssues.length > 0),
+    quarantined: lastQuarantined,
+  };
+}
+
+/**
+ * Load emergency data, preferring the in-memory cache, then the upstream API, then durable storage
+ *
+ * The returned response carries cache metadata (`cached`, `stale`, `cacheSource`, `lastUpdated`,
+ * `nextUpdate`). While the API is failing it is retried in the background through the shared
+ * upstream client, whose circuit breaker keeps requests from waiting on it. Throws if no source
+ * has any data.
+ * @returns Emergency data with cache metadata
+ */
+export async function getEmergencyData(): Promise<EmergencyResponse> {
+  const now = Date.now();
+  const timeSinceLastFetch = cachedData ? now - lastFetchTime : 0;
+
+  // Check if we have cached data and it's still fresh
+  if (cachedData && timeSinceLastFetch < CACHE_DURATION) {
+    console.log('Serving cached emergency data from memory');
+    return {
+      ...cachedData,
+      cached: true,
+      lastUpdated: new Date(lastFetchTime).toISOString(),
+      nextUpdate: new Date(lastFetchTime + CACHE_DURATION).toISOString(),
+      cacheSource: 'memory',
+    };
+  }
+
+  // No fresh cache, try upstream API first, then durable storage as fallback
+  try {
+    console.log('Fetching fresh emergency data from upstream API');
+    // The client hands back the raw response; onData has already checked and cached it
+    await emergencyClient.fetch();
+    if (!cachedData) {
+      throw new Error('Fresh emergency data was not cached');
+    }
+
+    return {
+      ...cachedData,
+      cached: false,
+      lastUpdated: new Date(lastFetchTime).toISOString(),
+      nextUpdate: new Date(lastFetchTime + CACHE_DURATION).toISOString(),
+      cacheSource: 'api',
+    };
+
+  } catch (apiError) {
+    console.error('Error fetching emergency data from API:', apiError);
+
+    // Keep retrying the upstream API in the background until it recovers
+    emergencyClient.retryInBackground();
+
+    // API failed, try durable storage as fallback
+    try {
+      console.log('Fetching emergency data from storage (fallback)');
+      const storedData = await fetchFromStorage();
+
+      // Update cache with stored data
+      cachedData = storedData;
+      lastFetchTime = now;
+      cachedFrom = 'blob-fallback';
+
+      return {
+        ...storedData,
+        cached: false,
+        lastUpdated: new Date(lastFetchTime).toISOString(),
+        nextUpdate: new Date(lastFetchTime + CACHE_DURATION).toISOString(),
+        cacheSource: 'blob-fallback',
+      };
+
+    } catch (storageError) {
+      console.error('Error fetching from storage:', storageError);
+
+      // If we have stale cached data, serve that
+      if (cachedData) {
+        console.log('Serving stale cached data due to API and storage errors');
+        return {
+          ...cachedData,
+          cached: true,
+          stale: true,
+          lastUpdated: new Date(lastFetchTime).toISOString(),
+          error: 'Using stale cached data due to API and storage errors',
+          cacheSource: 'memory-stale'
+        };
+      }
+
+      // No data available from any source
+      const apiMessage = apiError instanceof Error ? apiError.message : 'Unknown API error';
+      const storageMessage = storageError instanceof Error ? storageError.message : 'Unknown storage error';
+      throw new Error(`API: ${apiMessage}; Storage: ${storageMessage}`);
+    }
+  }
+}
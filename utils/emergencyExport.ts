@@ -0,0 +1,168 @@
+import { Emergency } from '@/types/emergency';
+import { categorizeNeeds } from '@/utils/needsTaxonomy';
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'geojson', 'kml'];
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+const EXPORT_COLUMNS = [
+  'id', 'placename', 'latitude', 'longitude', 'urgencyLevel', 'status', 'numberOfPeople', 'needs', 'needCategories',
+  'contactno', 'additionalNotes', 'timestamp', 'createdAt', 'updatedAt',
+  'hasReliefAction', 'reliefActionDistanceKm', 'reliefMatchCount', 'coverageScore', 'unmetNeeds',
+  'donorName', 'donorType', 'donorContact', 'donatedItems',
+] as const;
+
+type ExportColumn = typeof EXPORT_COLUMNS[number];
+type ExportValue = string | number | boolean | null;
+
+// Flat record used by every format: the report itself plus its relief enrichment
+function toExportRecord(emergency: Emergency): Record<ExportColumn, ExportValue> {
+  const donor = emergency.reliefActionDetails;
+
+  return {
+    id: emergency.id,
+    placename: emergency.placename,
+    latitude: emergency.latitude,
+    longitude: emergency.longitude,
+    urgencyLevel: emergency.urgencyLevel,
+    status: emergency.status,
+    numberOfPeople: emergency.numberOfPeople,
+    needs: emergency.needs.join('; '),
+    needCategories: categorizeNeeds(emergency.needs).join('; '),
+    contactno: emergency.contactno,
+    additionalNotes: emergency.additionalNotes,
+    timestamp: emergency.timestamp,
+    createdAt: emergency.createdAt,
+    updatedAt: emergency.updatedAt,
+    hasReliefAction: Boolean(emergency.hasReliefAction),
+    reliefActionDistanceKm: emergency.reliefActionDistance !== undefined
+      ? Math.round(emergency.reliefActionDistance * 1000) / 1000
+      : null,
+    reliefMatchCount: emergency.reliefMatches ? emergency.reliefMatches.length : 0,
+    coverageScore: emergency.coverageScore ?? null,
+    unmetNeeds: emergency.unmetNeeds ? emergency.unmetNeeds.join('; ') : null,
+    donorName: donor ? donor.donorName : null,
+    donorType: donor ? donor.donorType : null,
+    donorContact: donor ? donor.contactNumber : null,
+    donatedItems: donor ? donor.items.join('; ') : null,
+  };
+}
+
+// Quote a CSV cell, and keep spreadsheet apps from treating text as a formula (OWASP CSV injection characters)
+function csvCell(value: ExportValue): string {
+  if (value === null) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Export emergencies as CSV, one row per record
+ * @param emergencies Emergency records
+ * @returns CSV text with a header row
+ */
+export function toCsv(emergencies: Emergency[]): string {
+  const rows = emergencies
+    .map(toExportRecord)
+    .map(record => EXPORT_COLUMNS.map(column => csvCell(record[column])).join(','));
+
+  return [EXPORT_COLUMNS.join(',')].concat(rows).join('\r\n') + '\r\n';
+}
+
+/**
+ * Export emergencies as a GeoJSON FeatureCollection of points
+ * @param emergencies Emergency records
+ * @returns GeoJSON text
+ */
+export function toGeoJson(emergencies: Emergency[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: emergencies.map(emergency => ({
+      type: 'Feature',
+      id: emergency.id,
+      geometry: {
+        type: 'Point',
+        coordinates: [emergency.longitude, emergency.latitude],
+      },
+      properties: toExportRecord(emergency),
+    })),
+  });
+}
+
+/**
+ * Export emergencies as a KML document with one placemark per record
+ * @param emergencies Emergency records
+ * @returns KML text
+ */
+export function toKml(emergencies: Emergency[]): string {
+  const placemarks = emergencies.map(emergency => {
+    const record = toExportRecord(emergency);
+    const data = EXPORT_COLUMNS
+      .filter(column => record[column] !== null)
+      .map(column => `<Data name="${column}"><value>${escapeXml(String(record[column]))}</value></Data>`)
+      .join('');
+
+    return [
+      '<Placemark>',
+      `<name>${escapeXml(`${emergency.urgencyLevel}: ${emergency.placename}`)}</name>`,
+      `<description>${escapeXml(`${emergency.numberOfPeople} people · needs: ${emergency.needs.join(', ') || 'none specified'} · ${emergency.status}`)}</description>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      `<Point><coordinates>${emergency.longitude},${emergency.latitude},0</coordinates></Point>`,
+      '</Placemark>',
+    ].join('');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>Cebu Emergency Relief Dashboard</name>',
+    placemarks.join('\n'),
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
+
+/**
+ * Export emergencies in the given format
+ * @param emergencies Emergency records, already filtered and sorted
+ * @param format Export format
+ * @returns File content, content type and a suggested filename
+ */
+export function exportEmergencies(
+  emergencies: Emergency[],
+  format: ExportFormat
+): { content: string; contentType: string; filename: string } {
+  const content = format === 'csv'
+    ? toCsv(emergencies)
+    : format === 'geojson'
+      ? toGeoJson(emergencies)
+      : toKml(emergencies);
+
+  return {
+    content,
+    contentType: contentTypes[format],
+    filename: `emergencies-${new Date().toISOString().slice(0, 10)}.${format}`,
+  };
+}
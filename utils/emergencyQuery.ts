@@ -0,0 +1,327 @@
+import {
+  Emergency,
+  EmergencyQuery,
+  EmergencySortField,
+  PaginationInfo,
+  SortDirection,
+} from '@/types/emergency';
+import { categorizeNeed, categorizeNeeds, needMatches } from '@/utils/needsTaxonomy';
+
+export const URGENCY_LEVELS: Emergency['urgencyLevel'][] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+export const STATUSES: Emergency['status'][] = ['pending', 'in-progress', 'resolved', 'cancelled'];
+export const SORT_FIELDS: EmergencySortField[] = ['urgencyLevel', 'numberOfPeople', 'timestamp', 'status'];
+
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 1000;
+
+// Custom order: CRITICAL > HIGH > MEDIUM > LOW
+const urgencyOrder: Record<string, number> = { 'CRITICAL': 4, 'HIGH': 3, 'MEDIUM': 2, 'LOW': 1 };
+
+// Custom order: Relief Available > pending > in-progress > resolved > cancelled
+const statusOrder: Record<string, number> = { 'pending': 4, 'in-progress': 3, 'resolved': 2, 'cancelled': 1 };
+
+/**
+ * Check whether an emergency matches a free-text search
+ * @param emergency Emergency record
+ * @param query Search text (case-insensitive)
+ * @returns True if any searchable field contains the text, or a need is in the text's need category
+ */
+export function matchesSearchText(emergency: Emergency, query: string): boolean {
+  const searchLower = query.trim().toLowerCase();
+  if (searchLower === '') {
+    return true;
+  }
+
+  // "tubig" also finds reports that list "Water"
+  const searchCategory = categorizeNeed(searchLower);
+
+  return (
+    emergency.placename.toLowerCase().includes(searchLower) ||
+    emergency.contactno.toLowerCase().includes(searchLower) ||
+    emergency.urgencyLevel.toLowerCase().includes(searchLower) ||
+    emergency.status.toLowerCase().includes(searchLower) ||
+    emergency.additionalNotes.toLowerCase().includes(searchLower) ||
+    emergency.needs.some(need => need.toLowerCase().includes(searchLower)) ||
+    (searchCategory !== 'other' && categorizeNeeds(emergency.needs).includes(searchCategory)) ||
+    emergency.numberOfPeople.toString().includes(searchLower)
+  );
+}
+
+/**
+ * Filter emergencies by every criterion set on the query
+ * @param emergencies Emergency records
+ * @param query Filter criteria; unset criteria are ignored
+ * @returns Emergencies matching all criteria
+ */
+export function filterEmergencies(emergencies: Emergency[], query: EmergencyQuery): Emergency[] {
+  const fromTime = query.from ? new Date(query.from).getTime() : null;
+  const toTime = query.to ? new Date(query.to).getTime() : null;
+  const needs = query.needs;
+
+  return emergencies.filter(emergency => {
+    if (query.urgency && query.urgency.length > 0 && !query.urgency.includes(emergency.urgencyLevel)) {
+      return false;
+    }
+
+    if (query.status && query.status.length > 0 && !query.status.includes(emergency.status)) {
+      return false;
+    }
+
+    // Match emergencies that ask for any of the requested needs, by category
+    if (needs && needs.length > 0 && !emergency.needs.some(need => needs.some(requested => needMatches(need, requested)))) {
+      return false;
+    }
+
+    if (query.minPeople !== undefined && emergency.numberOfPeople < query.minPeople) {
+      return false;
+    }
+
+    if (query.maxPeople !== undefined && emergency.numberOfPeople > query.maxPeople) {
+      return false;
+    }
+
+    if (fromTime !== null || toTime !== null) {
+      const reportedAt = new Date(emergency.timestamp).getTime();
+      if (fromTime !== null && reportedAt < fromTime) return false;
+      if (toTime !== null && reportedAt > toTime) return false;
+    }
+
+    if (query.bbox) {
+      const [minLon, minLat, maxLon, maxLat] = query.bbox;
+      if (
+        emergency.longitude < minLon || emergency.longitude > maxLon ||
+        emergency.latitude < minLat || emergency.latitude > maxLat
+      ) {
+        return false;
+      }
+    }
+
+    if (query.q && !matchesSearchText(emergency, query.q)) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Sort emergencies by a single field
+ *
+ * Records whose value can't be compared, such as an unparseable timestamp, are placed last.
+ * @param emergencies Emergency records
+ * @param field Field to sort by
+ * @param direction Sort direction
+ * @returns A new, sorted array
+ */
+export function sortEmergencies(
+  emergencies: Emergency[],
+  field: EmergencySortField = 'urgencyLevel',
+  direction: SortDirection = 'desc'
+): Emergency[] {
+  const sortValue = (emergency: Emergency): number => {
+    switch (field) {
+      case 'urgencyLevel':
+        return urgencyOrder[emergency.urgencyLevel] || 0;
+      case 'numberOfPeople':
+        return emergency.numberOfPeople || 0;
+      case 'timestamp':
+        return new Date(emergency.timestamp).getTime();
+      case 'status':
+        // If relief is available, give it highest priority (5)
+        return emergency.hasReliefAction ? 5 : statusOrder[emergency.status] || 0;
+      default:
+        return 0;
+    }
+  };
+
+  return [...emergencies].sort((a, b) => {
+    const valueA = sortValue(a);
+    const valueB = sortValue(b);
+
+    // Unparseable values (e.g. an invalid timestamp) go last in either direction
+    if (isNaN(valueA) || isNaN(valueB)) {
+      return Number(isNaN(valueA)) - Number(isNaN(valueB));
+    }
+
+    const difference = valueA - valueB;
+    return direction === 'asc' ? difference : -difference;
+  });
+}
+
+/**
+ * Slice a list into a single page
+ * @param items Records to paginate
+ * @param page 1-based page number; a page past the end comes back empty
+ * @param limit Records per page
+ * @returns The requested page and pagination metadata
+ */
+export function paginate<T>(items: T[], page: number, limit: number): { data: T[]; pagination: PaginationInfo } {
+  const totalItems = items.length;
+  const totalPages = Math.max(1, Math.ceil(totalItems / limit));
+  const currentPage = Math.max(1, page);
+  const startIndex = (currentPage - 1) * limit;
+
+  return {
+    data: items.slice(startIndex, startIndex + limit),
+    pagination: {
+      page: currentPage,
+      limit,
+      totalItems,
+      totalPages,
+      hasNextPage: currentPage < totalPages,
+      hasPreviousPage: currentPage > 1,
+    },
+  };
+}
+
+/**
+ * Filter, sort and (optionally) paginate emergencies in one go
+ * @param emergencies Emergency records
+ * @param query Query criteria; without sort the upstream order is kept, without page/limit every match is returned on a single page
+ * @returns Matching records and pagination metadata
+ */
+export function queryEmergencies(
+  emergencies: Emergency[],
+  query: EmergencyQuery
+): { data: Emergency[]; pagination: PaginationInfo } {
+  const filtered = filterEmergencies(emergencies, query);
+  const sorted = query.sort ? sortEmergencies(filtered, query.sort, query.order) : filtered;
+  const limit = query.limit ?? Math.max(sorted.length, 1);
+
+  return paginate(sorted, query.page ?? 1, limit);
+}
+
+// Split a comma-separated (or repeated) query parameter into trimmed values
+function readList(searchParams: URLSearchParams, name: string): string[] {
+  return searchParams
+    .getAll(name)
+    .reduce<string[]>((values, value) => values.concat(value.split(',')), [])
+    .map(value => value.trim())
+    .filter(value => value !== '');
+}
+
+function readNumber(searchParams: URLSearchParams, name: string, errors: string[]): number | undefined {
+  const value = searchParams.get(name);
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    errors.push(`${name} must be a number`);
+    return undefined;
+  }
+
+  return parsed;
+}
+
+function readDate(searchParams: URLSearchParams, name: string, errors: string[]): string | undefined {
+  const value = searchParams.get(name);
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  if (isNaN(new Date(value).getTime())) {
+    errors.push(`${name} must be a valid date`);
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Parse `/api/emergencies` query parameters
+ *
+ * Supported parameters: urgency, status, needs (comma-separated), minPeople, maxPeople,
+ * from, to (ISO dates), bbox (minLon,minLat,maxLon,maxLat), q, sort, order, page, limit.
+ * @param searchParams URL search parameters
+ * @returns The parsed query and a list of validation errors
+ */
+export function parseEmergencyQuery(searchParams: URLSearchParams): { query: EmergencyQuery; errors: string[] } {
+  const errors: string[] = [];
+  const query: EmergencyQuery = {};
+
+  const urgency = readList(searchParams, 'urgency').map(value => value.toUpperCase());
+  const invalidUrgency = urgency.filter(value => !URGENCY_LEVELS.includes(value as Emergency['urgencyLevel']));
+  if (invalidUrgency.length > 0) {
+    errors.push(`Unknown urgency: ${invalidUrgency.join(', ')}`);
+  } else if (urgency.length > 0) {
+    query.urgency = urgency as Emergency['urgencyLevel'][];
+  }
+
+  const status = readList(searchParams, 'status').map(value => value.toLowerCase());
+  const invalidStatus = status.filter(value => !STATUSES.includes(value as Emergency['status']));
+  if (invalidStatus.length > 0) {
+    errors.push(`Unknown status: ${invalidStatus.join(', ')}`);
+  } else if (status.length > 0) {
+    query.status = status as Emergency['status'][];
+  }
+
+  const needs = readList(searchParams, 'needs');
+  if (needs.length > 0) {
+    query.needs = needs;
+  }
+
+  query.minPeople = readNumber(searchParams, 'minPeople', errors);
+  query.maxPeople = readNumber(searchParams, 'maxPeople', errors);
+  query.from = readDate(searchParams, 'from', errors);
+  query.to = readDate(searchParams, 'to', errors);
+
+  const bbox = searchParams.get('bbox');
+  if (bbox) {
+    const coordinates = bbox.split(',').map(Number);
+    if (coordinates.length !== 4 || coordinates.some(value => !Number.isFinite(value))) {
+      errors.push('bbox must be minLon,minLat,maxLon,maxLat');
+    } else {
+      query.bbox = coordinates as [number, number, number, number];
+    }
+  }
+
+  const q = searchParams.get('q');
+  if (q && q.trim() !== '') {
+    query.q = q;
+  }
+
+  const sort = searchParams.get('sort');
+  if (sort) {
+    if (SORT_FIELDS.includes(sort as EmergencySortField)) {
+      query.sort = sort as EmergencySortField;
+    } else {
+      errors.push(`sort must be one of: ${SORT_FIELDS.join(', ')}`);
+    }
+  }
+
+  const order = searchParams.get('order');
+  if (order) {
+    if (order === 'asc' || order === 'desc') {
+      query.order = order;
+    } else {
+      errors.push('order must be asc or desc');
+    }
+  }
+
+  const page = readNumber(searchParams, 'page', errors);
+  if (page !== undefined) {
+    if (!Number.isInteger(page) || page < 1) {
+      errors.push('page must be a positive integer');
+    } else {
+      query.page = page;
+    }
+  }
+
+  const limit = readNumber(searchParams, 'limit', errors);
+  if (limit !== undefined) {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      errors.push(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+    } else {
+      query.limit = limit;
+    }
+  }
+
+  // A page without a limit uses the dashboard's page size
+  if (query.page !== undefined && query.limit === undefined) {
+    query.limit = DEFAULT_PAGE_LIMIT;
+  }
+
+  return { query, errors };
+}
@@ -0,0 +1,123 @@
+import QRCode from 'qrcode';
+import { DispatchPacket, Emergency, EmergencyQuery, FieldSheet } from '@/types/emergency';
+import { parseEmergencyQuery, queryEmergencies } from '@/utils/emergencyQuery';
+import { getEmergencyIndex } from '@/utils/dataAccess';
+import { categorizeNeedAll, getNeedLabel } from '@/utils/needsTaxonomy';
+import { planRoute } from '@/utils/routePlanning';
+
+// Printable per-site field sheets for teams heading out, where connectivity can't be counted on
+
+export const MAX_FIELD_SHEETS = 100;
+
+export interface FieldSheetRequest {
+  query: EmergencyQuery; // Filters and sort, as for `/api/emergencies`
+  ids?: string[]; // Selected records; used instead of the filters when given
+  start?: [number, number]; // Latitude and longitude where the team sets out
+}
+
+/**
+ * Parse field sheet query parameters
+ *
+ * Accepts the `/api/emergencies` filters, or `ids` (comma-separated) for a hand-picked
+ * batch, plus `start` (lat,lng) for where the route begins.
+ * @param searchParams URL search parameters
+ * @returns The parsed request and a list of validation errors
+ */
+export function parseFieldSheetQuery(searchParams: URLSearchParams): { request: FieldSheetRequest; errors: string[] } {
+  const { query, errors } = parseEmergencyQuery(searchParams);
+  const request: FieldSheetRequest = { query };
+
+  const ids = searchParams
+    .getAll('ids')
+    .reduce<string[]>((values, value) => values.concat(value.split(',')), [])
+    .map(value => value.trim())
+    .filter(value => value !== '');
+  if (ids.length > MAX_FIELD_SHEETS) {
+    errors.push(`ids can list at most ${MAX_FIELD_SHEETS} records`);
+  } else if (ids.length > 0) {
+    request.ids = ids;
+  }
+
+  const start = searchParams.get('start');
+  if (start) {
+    const coordinates = start.split(',').map(Number);
+    if (
+      coordinates.length !== 2 ||
+      !coordinates.every(value => Number.isFinite(value)) ||
+      Math.abs(coordinates[0]) > 90 ||
+      Math.abs(coordinates[1]) > 180
+    ) {
+      errors.push('start must be latitude,longitude');
+    } else {
+      request.start = [coordinates[0], coordinates[1]];
+    }
+  }
+
+  return { request, errors };
+}
+
+/**
+ * Build the field sheets for a batch of emergencies, in visiting order
+ * @param emergencies Emergency records, enriched with relief matches
+ * @param request Selected ids or filters, and the start of the route
+ * @param baseUrl Public base URL of the dashboard, for the QR codes
+ * @returns One sheet per site and the route summary
+ */
+export async function buildDispatchPacket(
+  emergencies: Emergency[],
+  request: FieldSheetRequest,
+  baseUrl: string
+): Promise<DispatchPacket> {
+  let batch: Emergency[];
+  const missingIds: string[] = [];
+
+  if (request.ids) {
+    const index = getEmergencyIndex(emergencies);
+    batch = [];
+    request.ids.forEach(id => {
+      const emergency = index.get(id);
+      if (emergency) {
+        batch.push(emergency);
+      } else {
+        missingIds.push(id);
+      }
+    });
+  } else {
+    batch = queryEmergencies(emergencies, request.query).data;
+  }
+
+  const omitted = Math.max(0, batch.length - MAX_FIELD_SHEETS);
+  const { stops: route } = planRoute(
+    batch.slice(0, MAX_FIELD_SHEETS),
+    emergency => [emergency.latitude, emergency.longitude],
+    { start: request.start }
+  );
+
+  const sheets: FieldSheet[] = await Promise.all(route.map(async (stop, index) => {
+    const { item: emergency } = stop;
+    const shareUrl = `${baseUrl}/share/emergency/${encodeURIComponent(emergency.id)}`;
+    const svg = await QRCode.toString(shareUrl, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' });
+
+    return {
+      stop: index + 1,
+      emergency,
+      shareUrl,
+      qrCode: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+      checklist: (emergency.needs || []).map(need => ({ need, category: categorizeNeedAll(need).map(getNeedLabel).join(', ') })),
+      donor: emergency.reliefActionDetails || null,
+      donorDistanceKm: emergency.reliefActionDistance ?? null,
+      legKm: stop.legKm,
+      cumulativeKm: stop.cumulativeKm,
+    };
+  }));
+
+  return {
+    sheets,
+    start: request.start || null,
+    totalKm: route.length > 0 ? route[route.length - 1].cumulativeKm : 0,
+    totalPeople: sheets.reduce((sum, sheet) => sum + (sheet.emergency.numberOfPeople || 0), 0),
+    omitted,
+    missingIds,
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -56,49 +56,194 @@ export function isWithinDistance(
   return distance <= maxDistance;
 }
 
+const KM_PER_DEGREE_LAT = 111.32;
+
+export interface SpatialQueryResult<T> {
+  item: T;
+  lat: number;
+  lon: number;
+  distance: number; // Kilometers from the query point
+}
+
+export interface SpatialIndex<T> {
+  size: number;
+  withinRadius: (lat: number, lon: number, radiusKm: number) => SpatialQueryResult<T>[];
+  nearest: (lat: number, lon: number, k: number, maxDistance: number) => SpatialQueryResult<T>[];
+}
+
+interface IndexedPoint<T> {
+  item: T;
+  lat: number;
+  lon: number;
+}
+
 /**
- * Find the closest relief action to an emergency location
- * @param emergencyLat Emergency latitude
- * @param emergencyLon Emergency longitude
- * @param reliefActions Array of relief actions
- * @param maxDistance Maximum distance to consider (in kilometers)
- * @returns Closest relief action within maxDistance, or null if none found
+ * Build a grid-based spatial index for radius and k-nearest lookups
+ *
+ * Points are bucketed into square cells of roughly `cellSizeKm`, so a query only has to
+ * compute distances for points in the cells around it instead of scanning every point.
+ * k-nearest lookups take a maximum distance, since one outlier far from the rest stretches
+ * the grid and an unbounded search would walk every empty cell in between.
+ * @param items Items to index
+ * @param getCoordinates Returns [lat, lon] for an item, or null to leave it out
+ * @param cellSizeKm Approximate cell size in kilometers; pick something close to the typical query radius
+ * @returns Spatial index over the items with valid coordinates
  */
-export function findClosestReliefAction(
-  emergencyLat: number,
-  emergencyLon: number,
-  reliefActions: Array<{ LocationLat: string; LocationLong: string; [key: string]: any }>,
-  maxDistance: number = 1 // Default 1km radius
-): { reliefAction: any; distance: number } | null {
-  let closestReliefAction = null;
-  let minDistance = Infinity;
-  let validReliefActions = 0;
-  let invalidCoordinates = 0;
-
-  for (const reliefAction of reliefActions) {
-    const reliefLat = parseFloat(reliefAction.LocationLat);
-    const reliefLon = parseFloat(reliefAction.LocationLong);
-    
+export function createSpatialIndex<T>(
+  items: T[],
+  getCoordinates: (item: T) => [number, number] | null,
+  cellSizeKm: number = 1
+): SpatialIndex<T> {
+  const cellSizeDeg = cellSizeKm / KM_PER_DEGREE_LAT;
+  const cells = new Map<string, IndexedPoint<T>[]>();
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+  let minCol = Infinity;
+  let maxCol = -Infinity;
+  let size = 0;
+
+  const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+  items.forEach(item => {
+    const coordinates = getCoordinates(item);
+
     // Skip invalid coordinates
-    if (isNaN(reliefLat) || isNaN(reliefLon)) {
-      invalidCoordinates++;
-      continue;
+    if (!coordinates || !Number.isFinite(coordinates[0]) || !Number.isFinite(coordinates[1])) {
+      return;
+    }
+
+    const [lat, lon] = coordinates;
+    const row = Math.floor(lat / cellSizeDeg);
+    const col = Math.floor(lon / cellSizeDeg);
+    const key = cellKey(row, col);
+    const bucket = cells.get(key);
+
+    if (bucket) {
+      bucket.push({ item, lat, lon });
+    } else {
+      cells.set(key, [{ item, lat, lon }]);
+    }
+
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+    size++;
+  });
+
+  const toResult = (point: IndexedPoint<T>, lat: number, lon: number): SpatialQueryResult<T> => ({
+    item: point.item,
+    lat: point.lat,
+    lon: point.lon,
+    distance: calculateHaversineDistance(lat, lon, point.lat, point.lon),
+  });
+
+  const withinRadius = (lat: number, lon: number, radiusKm: number): SpatialQueryResult<T>[] => {
+    if (size === 0) {
+      return [];
     }
 
-    validReliefActions++;
-    const distance = calculateHaversineDistance(
-      emergencyLat,
-      emergencyLon,
-      reliefLat,
-      reliefLon
+    // Degrees of longitude shrink towards the poles, so widen the column range accordingly
+    const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+    const lonDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(Math.abs(lat) + latDelta)), 0.01));
+
+    const results: SpatialQueryResult<T>[] = [];
+    const fromRow = Math.max(minRow, Math.floor((lat - latDelta) / cellSizeDeg));
+    const toRow = Math.min(maxRow, Math.floor((lat + latDelta) / cellSizeDeg));
+    const fromCol = Math.max(minCol, Math.floor((lon - lonDelta) / cellSizeDeg));
+    const toCol = Math.min(maxCol, Math.floor((lon + lonDelta) / cellSizeDeg));
+
+    for (let row = fromRow; row <= toRow; row++) {
+      for (let col = fromCol; col <= toCol; col++) {
+        const bucket = cells.get(cellKey(row, col));
+        if (!bucket) continue;
+
+        bucket.forEach(point => {
+          const result = toResult(point, lat, lon);
+          if (result.distance <= radiusKm) {
+            results.push(result);
+          }
+        });
+      }
+    }
+
+    return results.sort((a, b) => a.distance - b.distance);
+  };
+
+  const nearest = (lat: number, lon: number, k: number, maxDistance: number): SpatialQueryResult<T>[] => {
+    if (size === 0 || k <= 0 || !(maxDistance >= 0)) {
+      return [];
+    }
+
+    const centerRow = Math.floor(lat / cellSizeDeg);
+    const centerCol = Math.floor(lon / cellSizeDeg);
+
+    // Smallest real-world width of a cell between the query point and the grid (columns are narrower than rows)
+    const maxAbsLat = Math.max(Math.abs(lat), Math.abs(minRow * cellSizeDeg), Math.abs((maxRow + 1) * cellSizeDeg));
+    const cellWidthKm = cellSizeKm * Math.max(Math.cos(toRadians(Math.min(maxAbsLat, 89))), 0.01);
+
+    // Rings closer than the grid's edge hold no cells, rings past its far edge hold none either,
+    // and rings past maxDistance can't hold a match
+    const firstRing = Math.max(0, minRow - centerRow, centerRow - maxRow, minCol - centerCol, centerCol - maxCol);
+    const lastRing = Math.min(
+      Math.max(
+        Math.abs(centerRow - minRow), Math.abs(centerRow - maxRow),
+        Math.abs(centerCol - minCol), Math.abs(centerCol - maxCol)
+      ),
+      Math.ceil(maxDistance / cellWidthKm) + 1
     );
 
-    if (distance <= maxDistance && distance < minDistance) {
-      minDistance = distance;
-      closestReliefAction = reliefAction;
+    let found: SpatialQueryResult<T>[] = [];
+
+    const visitCell = (row: number, col: number) => {
+      if (row < minRow || row > maxRow || col < minCol || col > maxCol) return;
+
+      const bucket = cells.get(cellKey(row, col));
+      if (!bucket) return;
+
+      bucket.forEach(point => {
+        const result = toResult(point, lat, lon);
+        if (result.distance <= maxDistance) {
+          found.push(result);
+        }
+      });
+    };
+
+    for (let ring = firstRing; ring <= lastRing; ring++) {
+      // Every point outside the rings visited so far is at least this far away
+      const ringDistance = Math.max(ring - 1, 0) * cellWidthKm;
+      if (ringDistance > maxDistance) break;
+      if (found.length >= k && found[k - 1].distance <= ringDistance) break;
+
+      if (ring === 0) {
+        visitCell(centerRow, centerCol);
+      } else {
+        // Only the ring's perimeter, clipped to the grid: top and bottom rows, then the sides between them
+        const fromCol = Math.max(centerCol - ring, minCol);
+        const toCol = Math.min(centerCol + ring, maxCol);
+        for (let col = fromCol; col <= toCol; col++) {
+          visitCell(centerRow - ring, col);
+          visitCell(centerRow + ring, col);
+        }
+
+        const fromRow = Math.max(centerRow - ring + 1, minRow);
+        const toRow = Math.min(centerRow + ring - 1, maxRow);
+        for (let row = fromRow; row <= toRow; row++) {
+          visitCell(row, centerCol - ring);
+          visitCell(row, centerCol + ring);
+        }
+      }
+
+      // Only the k closest so far can still be in the answer
+      found = found.sort((a, b) => a.distance - b.distance).slice(0, k);
     }
-  }
 
+    return found.slice(0, k);
+  };
 
-  return closestReliefAction ? { reliefAction: closestReliefAction, distance: minDistance } : null;
+  return {
+    size,
+    withinRadius,
+    nearest,
+  };
 }
@@ -0,0 +1,74 @@
+import { HealthReport, HealthStatus, SourceDiagnostics, SourceHealth } from '@/types/emergency';
+import { getEmergencyDiagnostics } from '@/utils/emergencyData';
+import { getReliefDiagnostics } from '@/utils/reliefActionsData';
+import { getSnapshotStorage } from '@/utils/snapshotStorage';
+
+const statusRank: Record<HealthStatus, number> = { ok: 0, degraded: 1, down: 2 };
+
+// Function to grade one data source: `down` when there is nothing to serve (or no upstream URL),
+// `degraded` when the upstream API is failing or only the stored copy is available
+function gradeSource(diagnostics: SourceDiagnostics): HealthStatus {
+  const { configured, upstream, cache, storage } = diagnostics;
+
+  if (!configured || (cache.source === null && storage.error)) {
+    return 'down';
+  }
+
+  if (
+    upstream.circuitState !== 'closed' ||
+    upstream.consecutiveFailures > 0 ||
+    cache.source === 'blob-fallback'
+  ) {
+    return 'degraded';
+  }
+
+  return 'ok';
+}
+
+// Function to find when the latest trend snapshot was taken
+async function getSnapshotHealth(now: number): Promise<HealthReport['snapshots']> {
+  try {
+    const snapshots = await getSnapshotStorage().list();
+    const latest = snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+
+    return {
+      latestAt: latest ? latest.takenAt : null,
+      ageMs: latest ? now - new Date(latest.takenAt).getTime() : null,
+    };
+  } catch (error) {
+    return {
+      latestAt: null,
+      ageMs: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Build the health report for both upstream APIs
+ *
+ * Reports what this server instance knows; it never calls the upstream APIs itself. The overall
+ * status follows the emergencies pipeline, since the dashboard still works without relief actions.
+ * @returns Health report
+ */
+export async function getHealthReport(): Promise<HealthReport> {
+  const now = Date.now();
+  const [emergencyDiagnostics, reliefDiagnostics, snapshots] = await Promise.all([
+    getEmergencyDiagnostics(),
+    getReliefDiagnostics(),
+    getSnapshotHealth(now),
+  ]);
+
+  const emergencies: SourceHealth = { status: gradeSource(emergencyDiagnostics), ...emergencyDiagnostics };
+  const reliefActions: SourceHealth = { status: gradeSource(reliefDiagnostics), ...reliefDiagnostics };
+
+  const reliefImpact: HealthStatus = reliefActions.status === 'ok' ? 'ok' : 'degraded';
+  const status = statusRank[emergencies.status] >= statusRank[reliefImpact] ? emergencies.status : reliefImpact;
+
+  return {
+    status,
+    generatedAt: new Date(now).toISOString(),
+    sources: { emergencies, reliefActions },
+    snapshots,
+  };
+}
@@ -0,0 +1,121 @@
+import { NeedCategory } from '@/types/emergency';
+
+// Canonical need categories shared by emergency needs, donated relief items, stats, search and exports
+
+export interface NeedCategoryInfo {
+  id: NeedCategory;
+  label: string;
+  synonyms: string[]; // Lowercase English, Cebuano and Tagalog words or phrases; each matches at the start of a word
+}
+
+// A text belongs to every category with a matching synonym, listed in this order; "other" catches the rest
+export const NEED_CATEGORIES: NeedCategoryInfo[] = [
+  {
+    id: 'water',
+    label: 'Water',
+    synonyms: ['water', 'drink', 'tubig', 'inumin', 'ilimnon'],
+  },
+  {
+    id: 'food',
+    label: 'Food',
+    synonyms: [
+      'food', 'rice', 'meal', 'canned', 'sardine', 'noodle', 'bread', 'grocer', 'milk', 'relief pack', 'relief good',
+      'pagkain', 'pagkaon', 'bigas', 'bugas', 'kan-on', 'kanin', 'delata', 'gatas', 'pansit',
+    ],
+  },
+  {
+    id: 'shelter',
+    label: 'Shelter',
+    synonyms: [
+      'shelter', 'tent', 'tarp', 'blanket', 'mattress', 'sleeping', 'roof', 'housing', 'evacuation',
+      'silungan', 'tolda', 'habol', 'kumot', 'banig', 'atop', 'bubong', 'puy-anan', 'balay', 'bahay',
+    ],
+  },
+  {
+    id: 'medical',
+    label: 'Medical',
+    synonyms: [
+      'medic', 'first aid', 'doctor', 'nurse', 'hygiene', 'vitamin', 'health', 'injur',
+      'tambal', 'bulong', 'gamot', 'doktor', 'samad', 'sugat',
+    ],
+  },
+  {
+    id: 'clothing',
+    label: 'Clothing',
+    synonyms: ['cloth', 'shirt', 'garment', 'apparel', 'shoe', 'sinina', 'bisti', 'damit', 'saput', 'tsinelas'],
+  },
+  {
+    id: 'other',
+    label: 'Other',
+    synonyms: [],
+  },
+];
+
+// Function to lowercase text and turn punctuation into spaces, padded so every word starts after a space
+function normalizeText(text: string): string {
+  return ` ${(text || '').toLowerCase().replace(/[^a-z0-9\u00c0-\u024f-]+/g, ' ').trim()} `;
+}
+
+/**
+ * Place a free-form need or donated item in a canonical category
+ * @param text Need or item, e.g. "Bottled Water" or "tubig"
+ * @returns The first category with a matching synonym, or "other"
+ */
+export function categorizeNeed(text: string): NeedCategory {
+  return categorizeNeedAll(text)[0];
+}
+
+/**
+ * Place a free-form need or donated item in every category it mentions
+ * @param text Need or item, e.g. "food and water" or "pagkaon ug tubig"
+ * @returns Every category with a matching synonym, in taxonomy order, or just "other"
+ */
+export function categorizeNeedAll(text: string): NeedCategory[] {
+  const normalized = normalizeText(text);
+  const matches = NEED_CATEGORIES.filter(category =>
+    category.id === normalized.trim() || category.synonyms.some(synonym => normalized.includes(` ${synonym}`))
+  ).map(category => category.id);
+  return matches.length > 0 ? matches : ['other'];
+}
+
+/**
+ * Place a list of needs or items in canonical categories
+ * @param texts Needs or items
+ * @returns Each category once, in the order first seen; a combined need such as "food and water" counts for both
+ */
+export function categorizeNeeds(texts: string[]): NeedCategory[] {
+  const categories: NeedCategory[] = [];
+  (texts || []).forEach(text => {
+    categorizeNeedAll(text).forEach(category => {
+      if (!categories.includes(category)) {
+        categories.push(category);
+      }
+    });
+  });
+  return categories;
+}
+
+/**
+ * Get the display label of a category
+ * @param category Need category
+ * @returns Label, e.g. "Water"
+ */
+export function getNeedLabel(category: NeedCategory): string {
+  const info = NEED_CATEGORIES.find(item => item.id === category);
+  return info ? info.label : 'Other';
+}
+
+/**
+ * Check whether a need matches a requested need, e.g. from the `needs` query parameter
+ * @param need Need on a record, e.g. "drinking water" or "food and water"
+ * @param requested Requested need or category, e.g. "water", "tubig" or "other"
+ * @returns True if they share a category; needs in the "other" bucket must match exactly unless "other" itself is requested
+ */
+export function needMatches(need: string, requested: string): boolean {
+  const categories = categorizeNeedAll(requested);
+  if (categories[0] !== 'other' || normalizeText(requested).trim() === 'other') {
+    return categorizeNeedAll(need).some(category => categories.includes(category));
+  }
+
+  return (need || '').trim().toLowerCase() === requested.trim().toLowerCase();
+}
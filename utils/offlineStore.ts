@@ -0,0 +1,82 @@
+import { EmergencyResponse, ReliefActionsResponse } from '@/types/emergency';
+
+// Browser-side persistence of the last good API responses, so the dashboard
+// and share pages keep working without a connection
+
+const DB_NAME = 'emergency-dashboard';
+const DB_VERSION = 2; // 2: relief actions are normalized, so copies saved by version 1 are discarded
+const STORE_NAME = 'responses';
+
+interface OfflineResponses {
+  'emergencies': EmergencyResponse;
+  'relief-actions': ReliefActionsResponse;
+}
+
+export type OfflineKey = keyof OfflineResponses;
+
+export interface OfflineRecord<T> {
+  value: T;
+  savedAt: string;
+}
+
+// Function to open (and create on first use) the offline database
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(STORE_NAME) && request.transaction) {
+        request.transaction.objectStore(STORE_NAME).clear();
+      } else {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Save the last good response for a dataset
+ * @param key Dataset name
+ * @param value Response to keep
+ */
+export async function saveOfflineResponse<K extends OfflineKey>(key: K, value: OfflineResponses[K]): Promise<void> {
+  const db = await openDatabase();
+  const record: OfflineRecord<OfflineResponses[K]> = { value, savedAt: new Date().toISOString() };
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record, key);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load the last saved response for a dataset
+ * @param key Dataset name
+ * @returns The saved response and when it was saved, or null if nothing was saved
+ */
+export async function loadOfflineResponse<K extends OfflineKey>(key: K): Promise<OfflineRecord<OfflineResponses[K]> | null> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
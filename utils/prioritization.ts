@@ -0,0 +1,220 @@
+import {
+  Emergency,
+  PriorityComponent,
+  PriorityFactor,
+  PriorityWeights,
+  ReliefAction,
+  TriageEntry,
+} from '@/types/emergency';
+import { OUTLIER_PEOPLE } from '@/utils/dataQuality';
+import { collapseDuplicates } from '@/utils/deduplication';
+import { createSpatialIndex } from '@/utils/geospatial';
+
+// Composite priority score that answers "who should we go to next"
+
+export const PRIORITY_FACTORS: PriorityFactor[] = ['urgency', 'people', 'age', 'unmetNeeds', 'reliefDistance'];
+
+export const DEFAULT_PRIORITY_WEIGHTS: PriorityWeights = {
+  urgency: 0.35,
+  people: 0.2,
+  age: 0.15,
+  unmetNeeds: 0.2,
+  reliefDistance: 0.1,
+};
+
+const AGE_HORIZON_HOURS = 72; // Reports waiting this long get the full age score
+const RELIEF_HORIZON_KM = 5; // No relief action within this distance gets the full distance score
+
+const urgencyValues: Record<Emergency['urgencyLevel'], number> = { CRITICAL: 1, HIGH: 0.75, MEDIUM: 0.5, LOW: 0.25 };
+
+export interface TriageOptions {
+  weights?: PriorityWeights;
+  limit?: number;
+  now?: number;
+}
+
+/**
+ * Parse priority weights from a `factor:weight` list, e.g. `urgency:0.5,reliefDistance:0`
+ *
+ * Factors that aren't listed keep their base weight. Weights are relative, so they don't
+ * need to add up to 1.
+ * @param value Comma-separated `factor:weight` pairs
+ * @param base Weights for the factors that aren't listed
+ * @returns Weights for every factor, and an error for every entry that couldn't be used
+ */
+export function parsePriorityWeights(
+  value?: string,
+  base: PriorityWeights = DEFAULT_PRIORITY_WEIGHTS
+): { weights: PriorityWeights; errors: string[] } {
+  const weights: PriorityWeights = { ...base };
+  const errors: string[] = [];
+
+  (value || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [factor, weight] = entry.split(':').map(part => part.trim());
+    const number = Number(weight);
+
+    if (!PRIORITY_FACTORS.includes(factor as PriorityFactor)) {
+      errors.push(`Unknown priority factor: ${factor}`);
+    } else if (weight === undefined || weight === '' || !isFinite(number) || number < 0) {
+      errors.push(`${factor} weight must be a number of 0 or more`);
+    } else {
+      weights[factor as PriorityFactor] = number;
+    }
+  });
+
+  if (errors.length === 0 && PRIORITY_FACTORS.every(factor => weights[factor] === 0)) {
+    errors.push('At least one priority weight must be above 0');
+  }
+
+  return { weights, errors };
+}
+
+let configuredWeights: PriorityWeights | null = null;
+
+/**
+ * Get the priority weights configured with `PRIORITY_WEIGHTS`
+ * @returns Weights for every factor; the defaults if the setting is invalid
+ */
+export function getPriorityWeights(): PriorityWeights {
+  if (!configuredWeights) {
+    const { weights, errors } = parsePriorityWeights(process.env.PRIORITY_WEIGHTS);
+    if (errors.length > 0) {
+      console.warn(`⚠️ Ignoring invalid PRIORITY_WEIGHTS: ${errors.join('; ')}`);
+    }
+    configuredWeights = errors.length > 0 ? { ...DEFAULT_PRIORITY_WEIGHTS } : weights;
+  }
+  return configuredWeights;
+}
+
+// Function to describe how long ago a report came in
+function formatAge(hours: number): string {
+  if (hours < 1) return 'Reported under an hour ago';
+  if (hours < 48) return `Reported ${Math.floor(hours)} h ago`;
+  return `Reported ${Math.floor(hours / 24)} days ago`;
+}
+
+// Function to rate every factor between 0 and 1, before weighting
+function rateFactors(
+  emergency: Emergency,
+  nearestReliefKm: number | null,
+  now: number
+): Record<PriorityFactor, { value: number; detail: string }> {
+  const people = Math.max(0, emergency.numberOfPeople || 0);
+
+  const reportedAt = new Date(emergency.timestamp || emergency.createdAt).getTime();
+  const ageHours = isNaN(reportedAt) ? 0 : Math.max(0, (now - reportedAt) / (60 * 60 * 1000));
+
+  const needs = emergency.needs || [];
+  const unmet = emergency.unmetNeeds || needs;
+  const unmetValue = needs.length > 0
+    ? unmet.length / needs.length
+    : 1 - (emergency.coverageScore || 0);
+
+  return {
+    urgency: {
+      value: urgencyValues[emergency.urgencyLevel] || 0,
+      detail: `${emergency.urgencyLevel} urgency`,
+    },
+    people: {
+      // Log scale: the step from 1 to 10 people matters more than from 400 to 500
+      value: Math.min(1, Math.log(1 + people) / Math.log(1 + OUTLIER_PEOPLE)),
+      detail: `${people} ${people === 1 ? 'person' : 'people'} affected`,
+    },
+    age: {
+      value: Math.min(1, ageHours / AGE_HORIZON_HOURS),
+      detail: formatAge(ageHours),
+    },
+    unmetNeeds: {
+      value: Math.min(1, Math.max(0, unmetValue)),
+      detail: needs.length > 0
+        ? `${unmet.length} of ${needs.length} needs unmet${unmet.length > 0 ? ` (${unmet.join(', ')})` : ''}`
+        : 'No needs listed',
+    },
+    reliefDistance: {
+      value: nearestReliefKm === null ? 1 : Math.min(1, nearestReliefKm / RELIEF_HORIZON_KM),
+      detail: nearestReliefKm === null
+        ? `No relief action within ${RELIEF_HORIZON_KM} km`
+        : `Nearest relief action ${nearestReliefKm < 1 ? `${Math.round(nearestReliefKm * 1000)} m` : `${nearestReliefKm.toFixed(1)} km`} away`,
+    },
+  };
+}
+
+/**
+ * Score how urgently an emergency should be visited
+ * @param emergency Emergency record, enriched with relief matches when available
+ * @param nearestReliefKm Distance to the nearest relief action, or null if none is within range
+ * @param weights Relative weight of every factor
+ * @param now Reference time for the report age
+ * @returns Score from 0 to 100 and each factor's share of it
+ */
+export function scorePriority(
+  emergency: Emergency,
+  nearestReliefKm: number | null,
+  weights: PriorityWeights = getPriorityWeights(),
+  now: number = Date.now()
+): { score: number; components: PriorityComponent[] } {
+  const ratings = rateFactors(emergency, nearestReliefKm, now);
+  const totalWeight = PRIORITY_FACTORS.reduce((sum, factor) => sum + weights[factor], 0) || 1;
+
+  const components = PRIORITY_FACTORS.map(factor => ({
+    factor,
+    value: Math.round(ratings[factor].value * 100) / 100,
+    weight: weights[factor],
+    points: Math.round((100 * weights[factor] * ratings[factor].value / totalWeight) * 10) / 10,
+    detail: ratings[factor].detail,
+  }));
+
+  const score = PRIORITY_FACTORS.reduce((sum, factor) => sum + weights[factor] * ratings[factor].value, 0);
+  return { score: Math.round((100 * score / totalWeight) * 10) / 10, components };
+}
+
+/**
+ * Rank pending incidents by priority score
+ *
+ * Repeat reports of the same incident are folded into one entry first, so a household
+ * that reported three times doesn't take three places in the queue.
+ * @param emergencies Emergency records annotated by `matchReliefActions` and `detectDuplicates`
+ * @param reliefActions Relief actions, for the distance to the nearest one
+ * @param options Weights, maximum number of entries and reference time
+ * @returns Highest-priority entries first, and the number of pending incidents
+ */
+export function buildTriageQueue(
+  emergencies: Emergency[],
+  reliefActions: ReliefAction[],
+  options: TriageOptions = {}
+): { entries: TriageEntry[]; totalPending: number } {
+  const weights = options.weights || getPriorityWeights();
+  const now = options.now ?? Date.now();
+
+  const reportCounts = new Map<string, number>();
+  emergencies.forEach(emergency => {
+    if (emergency.duplicateClusterId) {
+      reportCounts.set(emergency.duplicateClusterId, (reportCounts.get(emergency.duplicateClusterId) || 0) + 1);
+    }
+  });
+
+  const reliefIndex = createSpatialIndex(
+    reliefActions,
+    reliefAction => [reliefAction.latitude, reliefAction.longitude],
+    1
+  );
+
+  const pending = collapseDuplicates(emergencies).filter(emergency => emergency.status === 'pending');
+
+  const ranked = pending
+    .map(emergency => {
+      const [nearest] = reliefIndex.nearest(emergency.latitude, emergency.longitude, 1, RELIEF_HORIZON_KM);
+      const nearestReliefKm = nearest ? Math.round(nearest.distance * 1000) / 1000 : null;
+      const { score, components } = scorePriority(emergency, nearestReliefKm, weights, now);
+      const reports = emergency.duplicateClusterId ? reportCounts.get(emergency.duplicateClusterId) || 1 : 1;
+
+      return { rank: 0, score, emergency, components, nearestReliefKm, duplicateReports: reports - 1 };
+    })
+    .sort((a, b) => b.score - a.score || b.emergency.numberOfPeople - a.emergency.numberOfPeople);
+
+  const limit = options.limit ?? ranked.length;
+  return {
+    entries: ranked.slice(0, limit).map((entry, index) => ({ ...entry, rank: index + 1 })),
+    totalPending: ranked.length,
+  };
+}
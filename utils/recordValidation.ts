@@ -0,0 +1,244 @@
+import {
+  CoercionType,
+  EmergencyRecord,
+  ReliefActionRecord,
+  ValidationErrorType,
+  ValidationSummary,
+} from '@/types/emergency';
+import { STATUSES, URGENCY_LEVELS } from '@/utils/emergencyQuery';
+
+// Record-level validation of upstream payloads against schemas that mirror types/emergency.ts
+
+export interface FieldSpec {
+  type: 'string' | 'number' | 'string-array' | 'date';
+  required?: boolean; // A missing or invalid value rejects the record (default); otherwise it is defaulted
+  nullable?: boolean; // null is kept as a valid value
+  integer?: boolean;
+  numeric?: boolean; // A string that must parse as a number, e.g. relief coordinates
+  values?: readonly string[]; // Allowed values for enum-like strings
+}
+
+// Every field of the type must be described, so the schema can't drift from the interface
+export type RecordSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+export const EMERGENCY_SCHEMA: RecordSchema<EmergencyRecord> = {
+  id: { type: 'string' },
+  latitude: { type: 'number' },
+  longitude: { type: 'number' },
+  placename: { type: 'string', required: false },
+  contactno: { type: 'string', required: false },
+  accuracy: { type: 'number', required: false },
+  timestamp: { type: 'date' },
+  needs: { type: 'string-array' },
+  numberOfPeople: { type: 'number', integer: true },
+  urgencyLevel: { type: 'string', values: URGENCY_LEVELS },
+  additionalNotes: { type: 'string', required: false },
+  status: { type: 'string', values: STATUSES },
+  createdAt: { type: 'date', required: false },
+  updatedAt: { type: 'date', required: false },
+};
+
+export const RELIEF_ACTION_SCHEMA: RecordSchema<ReliefActionRecord> = {
+  DonationID: { type: 'number', integer: true },
+  DonorName: { type: 'string', required: false },
+  DonorType: { type: 'string', required: false },
+  ContactNumber: { type: 'string', required: false },
+  Email: { type: 'string', required: false },
+  Address: { type: 'string', required: false },
+  LocationLat: { type: 'string', numeric: true },
+  LocationLong: { type: 'string', numeric: true },
+  DonatedItems: { type: 'string-array' },
+  DateDonated: { type: 'string', required: false },
+  PicturePath: { type: 'string', required: false, nullable: true },
+  PicturePath2: { type: 'string', required: false, nullable: true },
+  AdditionalNotes: { type: 'string', required: false },
+  Status: { type: 'string', required: false },
+  IsVerified: { type: 'number', required: false },
+  VerifiedBy: { type: 'string', required: false, nullable: true },
+  VerifiedAt: { type: 'string', required: false, nullable: true },
+  CreatedAt: { type: 'date', required: false },
+  UpdatedAt: { type: 'date', required: false },
+};
+
+type FieldResult =
+  | { ok: true; value: unknown; coercion?: CoercionType }
+  | { ok: false; error: ValidationErrorType };
+
+const NUMERIC_PATTERN = /^\s*-?\d+(\.\d+)?\s*$/;
+
+// Function to match an enum value case-insensitively, with spaces or underscores for hyphens
+function matchEnumValue(value: string, values: readonly string[]): string | undefined {
+  const normalized = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return values.find(candidate => candidate.toLowerCase() === normalized);
+}
+
+// Function to check and, where it can't change the meaning, coerce a single field
+function checkField(value: unknown, spec: FieldSpec): FieldResult {
+  if (value === null && spec.nullable) {
+    return { ok: true, value: null };
+  }
+
+  if (spec.type === 'string-array') {
+    if (value === null || value === undefined) {
+      return { ok: true, value: [], coercion: 'array-from-null' };
+    }
+    if (typeof value === 'string') {
+      const items = value.split(',').map(item => item.trim()).filter(Boolean);
+      return { ok: true, value: items, coercion: 'array-from-string' };
+    }
+    if (!Array.isArray(value)) {
+      return { ok: false, error: 'invalid-type' };
+    }
+    const items = value
+      .map(item => (typeof item === 'number' ? String(item) : item))
+      .filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+    return items.length === value.length
+      ? { ok: true, value: items }
+      : { ok: true, value: items, coercion: 'dropped-array-items' };
+  }
+
+  if (value === null || value === undefined) {
+    return { ok: false, error: 'missing-field' };
+  }
+
+  if (spec.type === 'number') {
+    let coercion: CoercionType | undefined;
+    let number: number;
+
+    if (typeof value === 'number') {
+      number = value;
+    } else if (typeof value === 'string' && NUMERIC_PATTERN.test(value)) {
+      number = Number(value);
+      coercion = 'number-from-string';
+    } else if (typeof value === 'boolean') {
+      number = value ? 1 : 0;
+      coercion = 'number-from-boolean';
+    } else {
+      return { ok: false, error: typeof value === 'string' ? 'invalid-number' : 'invalid-type' };
+    }
+
+    if (!isFinite(number) || (spec.integer && !Number.isInteger(number))) {
+      return { ok: false, error: 'invalid-number' };
+    }
+    return { ok: true, value: number, coercion };
+  }
+
+  if (spec.type === 'date') {
+    if (typeof value === 'number' && isFinite(value)) {
+      return { ok: true, value: new Date(value).toISOString(), coercion: 'date-from-number' };
+    }
+    if (typeof value !== 'string') {
+      return { ok: false, error: 'invalid-type' };
+    }
+    return value.trim() !== '' && !isNaN(new Date(value).getTime())
+      ? { ok: true, value }
+      : { ok: false, error: 'invalid-date' };
+  }
+
+  // Strings
+  let text: string;
+  let coercion: CoercionType | undefined;
+  if (typeof value === 'string') {
+    text = value;
+  } else if (typeof value === 'number' && isFinite(value)) {
+    text = String(value);
+    coercion = 'string-from-number';
+  } else {
+    return { ok: false, error: 'invalid-type' };
+  }
+
+  if (spec.numeric && !NUMERIC_PATTERN.test(text)) {
+    return { ok: false, error: 'invalid-number' };
+  }
+
+  if (spec.values) {
+    const match = matchEnumValue(text, spec.values);
+    if (!match) {
+      return { ok: false, error: 'invalid-enum' };
+    }
+    if (match !== text) {
+      return { ok: true, value: match, coercion: 'enum-case' };
+    }
+  }
+
+  return { ok: true, value: text, coercion };
+}
+
+// Value used for an optional field that is missing or invalid
+function defaultValue(spec: FieldSpec): unknown {
+  if (spec.nullable) return null;
+  if (spec.type === 'number') return 0;
+  if (spec.type === 'string-array') return [];
+  return '';
+}
+
+/**
+ * Validate upstream records one by one
+ *
+ * Values are coerced where that can't change their meaning (numeric strings, `null` lists,
+ * enum casing). A record with an invalid required field is rejected on its own instead of
+ * failing the whole payload. Fields that aren't in the schema are dropped.
+ * @param records Records from the upstream payload
+ * @param schema Field specifications
+ * @returns Accepted records and counts of errors and coercions
+ */
+export function validateRecords<T>(records: unknown[], schema: RecordSchema<T>): { valid: T[]; summary: ValidationSummary } {
+  const valid: T[] = [];
+  const summary: ValidationSummary = {
+    checked: records.length,
+    accepted: 0,
+    rejected: 0,
+    errors: {},
+    coercions: {},
+    fields: {},
+  };
+  const fieldNames = Object.keys(schema) as (keyof T & string)[];
+
+  records.forEach(record => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      summary.rejected++;
+      summary.errors['not-an-object'] = (summary.errors['not-an-object'] || 0) + 1;
+      return;
+    }
+
+    const source = record as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    const errors: { field: string; error: ValidationErrorType }[] = [];
+    const coercions: { field: string; coercion: CoercionType }[] = [];
+
+    fieldNames.forEach(field => {
+      const spec: FieldSpec = schema[field];
+      const result = checkField(source[field], spec);
+
+      if (result.ok) {
+        output[field] = result.value;
+        if (result.coercion) {
+          coercions.push({ field, coercion: result.coercion });
+        }
+      } else if (spec.required === false) {
+        output[field] = defaultValue(spec);
+        coercions.push({ field, coercion: 'default-value' });
+      } else {
+        errors.push({ field, error: result.error });
+      }
+    });
+
+    if (errors.length > 0) {
+      summary.rejected++;
+      errors.forEach(({ field, error }) => {
+        summary.errors[error] = (summary.errors[error] || 0) + 1;
+        summary.fields[`${field}: ${error}`] = (summary.fields[`${field}: ${error}`] || 0) + 1;
+      });
+      return;
+    }
+
+    summary.accepted++;
+    coercions.forEach(({ field, coercion }) => {
+      summary.coercions[coercion] = (summary.coercions[coercion] || 0) + 1;
+      summary.fields[`${field}: ${coercion}`] = (summary.fields[`${field}: ${coercion}`] || 0) + 1;
+    });
+    valid.push(output as T);
+  });
+
+  return { valid, summary };
+}
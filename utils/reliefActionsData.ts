@@ -0,0 +1,247 @@
+import { ReliefActionRecord, ReliefActionsResponse, SourceDiagnostics, ValidationSummary } from '@/types/emergency';
+import { publishDataUpdate } from '@/utils/dataEvents';
+import { RELIEF_ACTION_SCHEMA, validateRecords } from '@/utils/recordValidation';
+import { normalizeReliefActions } from '@/utils/reliefNormalization';
+import { getStorage, readJsonDocument, writeJsonDocument } from '@/utils/storage';
+import { createUpstreamClient } from '@/utils/upstreamClient';
+
+// In-memory cache for relief actions data, normalized and with the upstream records kept in `raw`
+let cachedReliefData: ReliefActionsResponse | null = null;
+let lastFetchTime: number = 0;
+export const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes cache for relief actions
+
+// Last good response read back from durable storage after a cold start
+let storedReliefData: StoredReliefActions | null = null;
+
+const STORAGE_PATH = 'relief-actions.json';
+
+// Upstream response after schema validation
+interface UpstreamReliefActions {
+  success: boolean;
+  count: number;
+  data: ReliefActionRecord[];
+  validation?: ValidationSummary;
+}
+
+// Storage keeps upstream records, so they are normalized again when read back
+interface StoredReliefActions extends UpstreamReliefActions {
+  savedAt: string;
+}
+
+export interface ReliefActionsOptions {
+  includeRaw?: boolean; // Add the upstream records as `raw`, for debugging
+}
+
+// Function to build the normalized response from validated upstream records
+function toResponse(data: UpstreamReliefActions): ReliefActionsResponse {
+  const normalized = normalizeReliefActions(data.data);
+  return { success: data.success, count: normalized.length, data: normalized, raw: data.data, validation: data.validation };
+}
+
+// Function to update durable storage with fresh relief actions
+async function updateStorage(data: UpstreamReliefActions, savedAt: number): Promise<void> {
+  try {
+    const stored: StoredReliefActions = {
+      success: data.success,
+      count: data.count,
+      data: data.data,
+      validation: data.validation,
+      savedAt: new Date(savedAt).toISOString(),
+    };
+    await writeJsonDocument(STORAGE_PATH, stored);
+    console.log(`✅ Successfully updated ${getStorage().name} storage with ${data.count} relief actions`);
+  } catch (error) {
+    console.error('❌ Error updating relief actions storage:', error);
+    // Don't throw error - storage update failure shouldn't break the main flow
+  }
+}
+
+// Function to fetch the last good relief actions from durable storage
+async function fetchFromStorage(): Promise<StoredReliefActions> {
+  const data = await readJsonDocument<StoredReliefActions>(STORAGE_PATH);
+
+  if (!data.success || !data.data || !Array.isArray(data.data)) {
+    throw new Error('Invalid relief actions structure in storage');
+  }
+
+  return data;
+}
+
+// Function to check the shape of an upstream response, then validate each record against the schema
+function validateReliefActionsResponse(payload: unknown): UpstreamReliefActions {
+  const data = payload as { success?: boolean; data?: unknown };
+
+  if (!data || !data.success || !data.data || !Array.isArray(data.data)) {
+    throw new Error('Invalid relief actions API response structure');
+  }
+
+  const { valid, summary } = validateRecords<ReliefActionRecord>(data.data, RELIEF_ACTION_SCHEMA);
+  if (summary.rejected > 0 || Object.keys(summary.coercions).length > 0) {
+    console.log(`🧪 Schema validation: ${summary.rejected} rejected, ${summary.accepted} accepted of ${summary.checked} relief actions`, summary.fields);
+  }
+
+  return { success: true, count: valid.length, data: valid, validation: summary };
+}
+
+// Shared client: quick failures are retried once per request, then backoff runs from 1 to 10 minutes
+const reliefClient = createUpstreamClient<UpstreamReliefActions>({
+  name: 'Relief actions',
+  envVar: 'RELIEF_ACTIONS_API',
+  validate: validateReliefActionsResponse,
+  onData: data => acceptFreshData(data),
+  timeout: 30000,
+  attempts: 2,
+  baseBackoff: 60 * 1000,
+  maxBackoff: 10 * 60 * 1000,
+});
+
+// Function to store a fresh upstream response everywhere
+async function acceptFreshData(data: UpstreamReliefActions): Promise<void> {
+  cachedReliefData = toResponse(data);
+  lastFetchTime = Date.now();
+
+  publishDataUpdate({ source: 'relief-actions', count: cachedReliefData.count, lastUpdated: new Date(lastFetchTime).toISOString() });
+  await updateStorage(data, lastFetchTime);
+}
+
+/**
+ * Describe the relief actions pipeline for the health report, without triggering a fetch
+ * @returns Upstream stats, cache and storage ages, and record counts
+ */
+export async function getReliefDiagnostics(): Promise<SourceDiagnostics> {
+  const now = Date.now();
+  let storage: SourceDiagnostics['storage'] = { savedAt: null, ageMs: null };
+
+  try {
+    const stored = await fetchFromStorage();
+    storage = { savedAt: stored.savedAt, ageMs: now - new Date(stored.savedAt).getTime() };
+  } catch (error) {
+    storage.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  // Relief actions only lose records that fail schema validation
+  const received = cachedReliefData
+    ? cachedReliefData.validation ? cachedReliefData.validation.checked : cachedReliefData.count
+    : null;
+  const accepted = cachedReliefData ? cachedReliefData.count : null;
+
+  return {
+    envVar: 'RELIEF_ACTIONS_API',
+    configured: Boolean(process.env.RELIEF_ACTIONS_API),
+    upstream: reliefClient.stats(),
+    cache: {
+      source: cachedReliefData ? 'api' : storedReliefData ? 'blob-fallback' : null,
+      lastUpdated: cachedReliefData
+        ? new Date(lastFetchTime).toISOString()
+        : storedReliefData ? storedReliefData.savedAt : null,
+      ageMs: cachedReliefData
+        ? now - lastFetchTime
+        : storedReliefData ? now - new Date(storedReliefData.savedAt).getTime() : null,
+      maxAgeMs: CACHE_DURATION,
+    },
+    storage,
+    records: { received, afterFilter: accepted },
+  };
+}
+
+// Function to serve the best data we have while the upstream API is failing
+async function serveFallback(): Promise<ReliefActionsResponse | null> {
+  const { nextRetryAt, lastError } = reliefClient.stats();
+  const nextRetry = nextRetryAt || undefined;
+
+  // If we have stale cached data, serve that
+  if (cachedReliefData) {
+    return {
+      ...cachedReliefData,
+      cached: true,
+      stale: true,
+      lastUpdated: new Date(lastFetchTime).toISOString(),
+      nextRetry,
+      error: `Using stale cached data due to API error: ${lastError}`,
+      cacheSource: 'memory-stale'
+    };
+  }
+
+  // Cold start with the API down: use the last good response from storage
+  try {
+    if (!storedReliefData) {
+      console.log('Fetching relief actions from storage (fallback)');
+      storedReliefData = await fetchFromStorage();
+    }
+
+    return {
+      ...toResponse(storedReliefData),
+      cached: true,
+      stale: true,
+      lastUpdated: storedReliefData.savedAt,
+      nextRetry,
+      error: `Using stored relief actions due to API error: ${lastError}`,
+      cacheSource: 'blob-fallback',
+    };
+  } catch (storageError) {
+    console.error('Error fetching relief actions from storage:', storageError);
+    return null;
+  }
+}
+
+// Function to load relief actions from the freshest source available
+async function loadReliefActions(): Promise<ReliefActionsResponse> {
+  const now = Date.now();
+  const timeSinceLastFetch = cachedReliefData ? now - lastFetchTime : 0;
+
+  // Check if we have cached data and it's still fresh
+  if (cachedReliefData && timeSinceLastFetch < CACHE_DURATION) {
+    return {
+      ...cachedReliefData,
+      cached: true,
+      lastUpdated: new Date(lastFetchTime).toISOString(),
+      nextUpdate: new Date(lastFetchTime + CACHE_DURATION).toISOString(),
+      cacheSource: 'memory',
+    };
+  }
+
+  // Fetch fresh data from API (fails fast while the circuit is open)
+  try {
+    await reliefClient.fetch();
+    if (!cachedReliefData) {
+      throw new Error('Relief actions were fetched but not cached');
+    }
+
+    return {
+      ...cachedReliefData,
+      cached: false,
+      lastUpdated: new Date(lastFetchTime).toISOString(),
+      nextUpdate: new Date(lastFetchTime + CACHE_DURATION).toISOString(),
+      cacheSource: 'api',
+    };
+
+  } catch (error) {
+    reliefClient.retryInBackground();
+
+    const fallback = await serveFallback();
+    if (fallback) {
+      return fallback;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Load normalized relief actions, preferring the in-memory cache, then the upstream API
+ *
+ * When the API fails, stale cached data (or the last good response from durable storage) is
+ * served with `stale: true` while the API is retried in the background with jittered
+ * exponential backoff. Throws if there is no data at all.
+ * @param options Whether to include the upstream records
+ * @returns Relief actions with cache metadata
+ */
+export async function getReliefActionsData(options: ReliefActionsOptions = {}): Promise<ReliefActionsResponse> {
+  const response = await loadReliefActions();
+  if (options.includeRaw) {
+    return response;
+  }
+
+  const { raw, ...normalized } = response;
+  return normalized;
+}
@@ -0,0 +1,153 @@
+import { Emergency, ReliefAction, ReliefMatch } from '@/types/emergency';
+import { createSpatialIndex } from '@/utils/geospatial';
+import { categorizeNeedAll } from '@/utils/needsTaxonomy';
+
+export interface MatchingOptions {
+  maxDistance: number; // Search radius in kilometers
+  peoplePerDonation: number; // Estimated number of people a single donation can serve
+  coverageThreshold: number; // Minimum share of needs covered (0-1) for "Relief Available"
+}
+
+export const DEFAULT_MATCHING_OPTIONS: MatchingOptions = {
+  maxDistance: 0.2,
+  peoplePerDonation: 50,
+  coverageThreshold: 1,
+};
+
+/**
+ * Check whether a donated item covers a requested need
+ *
+ * Both are compared by need category, so "Bottled water" covers "tubig", and an item covers a
+ * combined need such as "food and water" if it covers one of its categories. Needs in the
+ * "other" bucket fall back to matching the text, e.g. "Diapers" covers "diaper".
+ * @param item Donated item, e.g. "Bottled water"
+ * @param need Requested need, e.g. "water"
+ * @returns True if the item and need refer to the same thing
+ */
+export function itemCoversNeed(item: string, need: string): boolean {
+  const itemLower = item.trim().toLowerCase();
+  const needLower = need.trim().toLowerCase();
+
+  if (itemLower === '' || needLower === '') {
+    return false;
+  }
+
+  const categories = categorizeNeedAll(needLower);
+  if (categories[0] !== 'other') {
+    return categorizeNeedAll(itemLower).some(category => categories.includes(category));
+  }
+
+  return itemLower.includes(needLower) || needLower.includes(itemLower);
+}
+
+/**
+ * Score how well a set of nearby donations covers an emergency
+ *
+ * The score is the share of needs covered times the share of people the donations can serve,
+ * so a large group keeps a low score until enough donations are nearby.
+ * @param emergency Emergency record
+ * @param matches Donations matched to the emergency
+ * @returns Coverage score and share of needs covered, both between 0 and 1, and the needs no donation covers
+ */
+export function scoreCoverage(
+  emergency: Emergency,
+  matches: ReliefMatch[]
+): { coverageScore: number; needsCoverage: number; unmetNeeds: string[] } {
+  if (matches.length === 0) {
+    return { coverageScore: 0, needsCoverage: 0, unmetNeeds: [...(emergency.needs || [])] };
+  }
+
+  const needs = emergency.needs || [];
+  const coveredNeeds = new Set<string>();
+  matches.forEach(match => match.matchedNeeds.forEach(need => coveredNeeds.add(need)));
+  const unmetNeeds = needs.filter(need => !coveredNeeds.has(need));
+
+  // Share of requested needs that at least one donation covers
+  const needsCoverage = needs.length > 0 ? (needs.length - unmetNeeds.length) / needs.length : 1;
+
+  // Whether the donations are large enough for the number of people affected
+  const peopleServed = matches.reduce((sum, match) => sum + match.estimatedPeopleServed, 0);
+  const scaleCoverage = Math.min(1, peopleServed / Math.max(1, emergency.numberOfPeople || 0));
+
+  return {
+    coverageScore: Math.round(needsCoverage * scaleCoverage * 100) / 100,
+    needsCoverage,
+    unmetNeeds,
+  };
+}
+
+/**
+ * Match every emergency with all nearby donations whose items cover its needs
+ *
+ * A donation can be matched to several emergencies; its estimated capacity is then
+ * split evenly between them. "Relief Available" only needs the needs to be covered, so sites
+ * larger than one donation can serve still get it; the coverage score reflects the scale.
+ * The closest donor's distance and details are only set for emergencies with relief available.
+ * @param emergencies Emergency records
+ * @param reliefActions Relief actions (donations)
+ * @param options Matching options
+ * @returns Emergencies enriched with matches, coverage score and unmet needs
+ */
+export function matchReliefActions(
+  emergencies: Emergency[],
+  reliefActions: ReliefAction[],
+  options: Partial<MatchingOptions> = {}
+): Emergency[] {
+  const { maxDistance, peoplePerDonation, coverageThreshold } = { ...DEFAULT_MATCHING_OPTIONS, ...options };
+
+  // Index relief coordinates, instead of scanning every donation per emergency
+  const reliefIndex = createSpatialIndex(
+    reliefActions,
+    reliefAction => [reliefAction.latitude, reliefAction.longitude],
+    maxDistance
+  );
+
+  // First pass: find every (emergency, donation) pair within range that covers at least one need
+  const pairs = emergencies.map(emergency => {
+    const needs = emergency.needs || [];
+    const nearby: { reliefAction: ReliefAction; distance: number; matchedNeeds: string[] }[] = [];
+
+    reliefIndex.withinRadius(emergency.latitude, emergency.longitude, maxDistance).forEach(({ item: reliefAction, distance }) => {
+      const items = reliefAction.items;
+      const matchedNeeds = needs.filter(need => items.some(item => itemCoversNeed(item, need)));
+
+      // Emergencies without specific needs can be served by any nearby donation
+      if (needs.length === 0 || matchedNeeds.length > 0) {
+        nearby.push({ reliefAction, distance, matchedNeeds });
+      }
+    });
+
+    // Results come back sorted by distance, closest first
+    return nearby;
+  });
+
+  // Count how many emergencies share each donation
+  const donationLoad = new Map<ReliefAction, number>();
+  pairs.forEach(nearby => {
+    nearby.forEach(({ reliefAction }) => donationLoad.set(reliefAction, (donationLoad.get(reliefAction) || 0) + 1));
+  });
+
+  // Second pass: score coverage with each donation's capacity split between the emergencies it serves
+  return emergencies.map((emergency, index) => {
+    const reliefMatches: ReliefMatch[] = pairs[index].map(({ reliefAction, distance, matchedNeeds }) => ({
+      reliefAction,
+      distance,
+      matchedNeeds,
+      estimatedPeopleServed: Math.floor(peoplePerDonation / (donationLoad.get(reliefAction) || 1)),
+    }));
+
+    const { coverageScore, needsCoverage, unmetNeeds } = scoreCoverage(emergency, reliefMatches);
+    const hasReliefAction = reliefMatches.length > 0 && needsCoverage >= coverageThreshold;
+    const closestMatch = hasReliefAction ? reliefMatches[0] : undefined;
+
+    return {
+      ...emergency,
+      hasReliefAction,
+      reliefActionDistance: closestMatch?.distance,
+      reliefActionDetails: closestMatch?.reliefAction,
+      reliefMatches,
+      coverageScore,
+      unmetNeeds,
+    };
+  });
+}
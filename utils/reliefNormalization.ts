@@ -0,0 +1,62 @@
+import { ReliefAction, ReliefActionRecord } from '@/types/emergency';
+import { categorizeNeeds } from '@/utils/needsTaxonomy';
+
+// Maps upstream relief records (PascalCase, string coordinates, numeric flags) onto the app's model
+
+// Function to turn an upstream date into ISO 8601, or null if it can't be read
+function toIsoDate(value: string | null): string | null {
+  if (!value || value.trim() === '') {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Function to trim a free-form string, treating null as empty
+function clean(value: string | null): string {
+  return (value || '').trim();
+}
+
+/**
+ * Normalize an upstream relief record
+ * @param record Record that passed schema validation
+ * @returns Relief action with numeric coordinates, a boolean verification flag, ISO dates and categorized items
+ */
+export function normalizeReliefAction(record: ReliefActionRecord): ReliefAction {
+  const items = (record.DonatedItems || []).map(item => item.trim()).filter(Boolean);
+
+  return {
+    id: record.DonationID,
+    donorName: clean(record.DonorName),
+    donorType: clean(record.DonorType),
+    contactNumber: clean(record.ContactNumber),
+    email: clean(record.Email),
+    address: clean(record.Address),
+    latitude: parseFloat(record.LocationLat),
+    longitude: parseFloat(record.LocationLong),
+    items,
+    itemCategories: categorizeNeeds(items),
+    donatedAt: toIsoDate(record.DateDonated),
+    pictures: [record.PicturePath, record.PicturePath2].map(clean).filter(Boolean),
+    notes: clean(record.AdditionalNotes),
+    status: clean(record.Status),
+    verified: record.IsVerified === 1,
+    verifiedBy: clean(record.VerifiedBy) || null,
+    verifiedAt: toIsoDate(record.VerifiedAt),
+    createdAt: toIsoDate(record.CreatedAt),
+    updatedAt: toIsoDate(record.UpdatedAt),
+  };
+}
+
+/**
+ * Normalize a list of upstream relief records
+ *
+ * Records whose coordinates don't parse are left out, since they can't be matched or mapped.
+ * @param records Records that passed schema validation
+ * @returns Normalized relief actions
+ */
+export function normalizeReliefActions(records: ReliefActionRecord[]): ReliefAction[] {
+  return records
+    .map(normalizeReliefAction)
+    .filter(action => isFinite(action.latitude) && isFinite(action.longitude));
+}
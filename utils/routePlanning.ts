@@ -0,0 +1,272 @@
+import { Emergency, ReliefAction, RoutePlan } from '@/types/emergency';
+import { calculateHaversineDistance } from '@/utils/geospatial';
+import { getEmergencyIndex } from '@/utils/dataAccess';
+
+// Visiting order for a batch of sites: nearest neighbour, then 2-opt, by straight-line distance
+
+export const MAX_ROUTE_STOPS = 100;
+
+const MAPS_POINTS_PER_LINK = 10; // Google Maps directions take at most 10 places per link
+const MAX_TWO_OPT_PASSES = 50;
+
+export interface RouteStop<T> {
+  item: T;
+  legKm: number; // From the previous stop, or from the start for the first one
+  cumulativeKm: number;
+}
+
+export interface RouteOptions<T> {
+  start?: [number, number]; // Where the route starts; the first site when not given
+  capacity?: number; // Most load the route can take on, e.g. people a team can serve
+  getLoad?: (item: T) => number;
+}
+
+export interface RoutePlanRequest {
+  ids: string[];
+  start?: [number, number];
+  reliefActionId?: number; // Start at this relief action instead of `start`
+  capacity?: number; // Most people the team can serve on this trip
+}
+
+// Function to shorten a route by reversing segments while that makes it shorter (2-opt); index 0 is the fixed start
+function improveWithTwoOpt(order: number[], distance: (a: number, b: number) => number): number[] {
+  const route = order.slice();
+  let improved = true;
+  let passes = 0;
+
+  while (improved && passes < MAX_TWO_OPT_PASSES) {
+    improved = false;
+    passes++;
+
+    for (let i = 1; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        // Reversing route[i..k] swaps edges (i-1, i) and (k, k+1) for (i-1, k) and (i, k+1); the path is open at the end
+        const before = distance(route[i - 1], route[i]) + (k + 1 < route.length ? distance(route[k], route[k + 1]) : 0);
+        const after = distance(route[i - 1], route[k]) + (k + 1 < route.length ? distance(route[i], route[k + 1]) : 0);
+
+        if (after < before - 1e-9) {
+          const reversed = route.slice(i, k + 1).reverse();
+          route.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return route;
+}
+
+/**
+ * Plan a visiting order for a batch of sites
+ *
+ * Builds a route by always going to the closest site that still fits the capacity, then
+ * shortens it with 2-opt. The route is open: it ends at the last site, without returning.
+ * @param items Sites to visit
+ * @param getCoordinates Function that returns [latitude, longitude] for a site
+ * @param options Start point and capacity
+ * @returns Sites in visiting order with leg and running distances in kilometers, and the sites that didn't fit
+ */
+export function planRoute<T>(
+  items: T[],
+  getCoordinates: (item: T) => [number, number],
+  options: RouteOptions<T> = {}
+): { stops: RouteStop<T>[]; skipped: T[] } {
+  if (items.length === 0) return { stops: [], skipped: [] };
+
+  // Point 0 is the start, point i + 1 is items[i]
+  const points = [options.start || getCoordinates(items[0])].concat(items.map(getCoordinates));
+  const matrix = points.map(from => points.map(to => calculateHaversineDistance(from[0], from[1], to[0], to[1])));
+  const distance = (a: number, b: number) => matrix[a][b];
+
+  const getLoad = options.getLoad || (() => 0);
+  let remainingCapacity = options.capacity ?? Infinity;
+  const unvisited = items.map((item, index) => index + 1);
+  const order = [0];
+
+  while (unvisited.length > 0) {
+    const position = order[order.length - 1];
+    let nearest = -1;
+
+    unvisited.forEach((point, index) => {
+      if (getLoad(items[point - 1]) > remainingCapacity) return;
+      if (nearest === -1 || distance(position, point) < distance(position, unvisited[nearest])) {
+        nearest = index;
+      }
+    });
+
+    if (nearest === -1) break;
+    const [point] = unvisited.splice(nearest, 1);
+    remainingCapacity -= getLoad(items[point - 1]);
+    order.push(point);
+  }
+
+  let cumulativeKm = 0;
+  const stops = improveWithTwoOpt(order, distance).slice(1).map((point, index, route) => {
+    const legKm = distance(index === 0 ? 0 : route[index - 1], point);
+    cumulativeKm += legKm;
+    return { item: items[point - 1], legKm, cumulativeKm };
+  });
+
+  return { stops, skipped: unvisited.map(point => items[point - 1]) };
+}
+
+/**
+ * Parse route planner query parameters
+ *
+ * Supported parameters: ids (comma-separated emergency ids), start (lat,lng) or
+ * reliefActionId for where the route begins, and capacity (people).
+ * @param searchParams URL search parameters
+ * @returns The parsed request and a list of validation errors
+ */
+export function parseRoutePlanQuery(searchParams: URLSearchParams): { request: RoutePlanRequest; errors: string[] } {
+  const errors: string[] = [];
+  const ids = searchParams
+    .getAll('ids')
+    .reduce<string[]>((values, value) => values.concat(value.split(',')), [])
+    .map(value => value.trim())
+    .filter(value => value !== '');
+  const request: RoutePlanRequest = { ids };
+
+  if (ids.length === 0) {
+    errors.push('ids must list at least one emergency');
+  } else if (ids.length > MAX_ROUTE_STOPS) {
+    errors.push(`ids can list at most ${MAX_ROUTE_STOPS} emergencies`);
+  }
+
+  const start = searchParams.get('start');
+  const reliefActionId = searchParams.get('reliefActionId');
+  if (start && reliefActionId) {
+    errors.push('Use either start or reliefActionId, not both');
+  } else if (start) {
+    const coordinates = start.split(',').map(Number);
+    if (
+      coordinates.length !== 2 ||
+      !coordinates.every(value => Number.isFinite(value)) ||
+      Math.abs(coordinates[0]) > 90 ||
+      Math.abs(coordinates[1]) > 180
+    ) {
+      errors.push('start must be latitude,longitude');
+    } else {
+      request.start = [coordinates[0], coordinates[1]];
+    }
+  } else if (reliefActionId) {
+    const id = Number(reliefActionId);
+    if (!Number.isInteger(id)) {
+      errors.push('reliefActionId must be a whole number');
+    } else {
+      request.reliefActionId = id;
+    }
+  } else {
+    errors.push('start or reliefActionId is required');
+  }
+
+  const capacity = searchParams.get('capacity');
+  if (capacity !== null && capacity.trim() !== '') {
+    const value = Number(capacity);
+    if (!Number.isInteger(value) || value < 1) {
+      errors.push('capacity must be a whole number of 1 or more');
+    } else {
+      request.capacity = value;
+    }
+  }
+
+  return { request, errors };
+}
+
+// Function to build Google Maps directions links, chained so each link starts where the previous one ended
+function buildMapsUrls(points: [number, number][]): string[] {
+  const urls: string[] = [];
+  for (let first = 0; first < points.length - 1; first += MAPS_POINTS_PER_LINK - 1) {
+    const path = points
+      .slice(first, first + MAPS_POINTS_PER_LINK)
+      .map(([latitude, longitude]) => `${latitude.toFixed(6)},${longitude.toFixed(6)}`)
+      .join('/');
+    urls.push(`https://www.google.com/maps/dir/${path}`);
+  }
+  return urls;
+}
+
+/**
+ * Plan a relief team's trip to a set of emergencies
+ * @param emergencies Emergency records to pick the requested ids from
+ * @param reliefActions Relief actions, for a `reliefActionId` start
+ * @param request Emergency ids, start and capacity
+ * @param baseUrl Public base URL of the dashboard, for the share and print links
+ * @returns The plan, or an error when the start relief action doesn't exist
+ */
+export function buildRoutePlan(
+  emergencies: Emergency[],
+  reliefActions: ReliefAction[],
+  request: RoutePlanRequest,
+  baseUrl: string
+): { plan?: RoutePlan; error?: string } {
+  let start: RoutePlan['start'];
+
+  if (request.reliefActionId !== undefined) {
+    const reliefAction = reliefActions.find(item => item.id === request.reliefActionId);
+    if (!reliefAction) {
+      return { error: `Relief action ${request.reliefActionId} not found` };
+    }
+    start = {
+      latitude: reliefAction.latitude,
+      longitude: reliefAction.longitude,
+      label: reliefAction.donorName || reliefAction.address || `Relief action ${reliefAction.id}`,
+      reliefActionId: reliefAction.id,
+    };
+  } else if (request.start) {
+    start = { latitude: request.start[0], longitude: request.start[1], label: 'Relief hub' };
+  } else {
+    return { error: 'start or reliefActionId is required' };
+  }
+
+  const index = getEmergencyIndex(emergencies);
+  const batch: Emergency[] = [];
+  const missingIds: string[] = [];
+  request.ids.forEach(id => {
+    const emergency = index.get(id);
+    if (!emergency) {
+      missingIds.push(id);
+    } else if (!batch.includes(emergency)) {
+      batch.push(emergency);
+    }
+  });
+
+  const { stops, skipped } = planRoute(batch, emergency => [emergency.latitude, emergency.longitude], {
+    start: [start.latitude, start.longitude],
+    capacity: request.capacity,
+    getLoad: emergency => Math.max(0, emergency.numberOfPeople || 0),
+  });
+
+  let cumulativePeople = 0;
+  const routeStops = stops.map((stop, position) => {
+    cumulativePeople += Math.max(0, stop.item.numberOfPeople || 0);
+    return { order: position + 1, emergency: stop.item, legKm: stop.legKm, cumulativeKm: stop.cumulativeKm, cumulativePeople };
+  });
+
+  const visitedIds = routeStops.map(stop => stop.emergency.id).join(',');
+  const startParam = request.reliefActionId !== undefined
+    ? `reliefActionId=${request.reliefActionId}`
+    : `start=${start.latitude},${start.longitude}`;
+  const shareParams = `${startParam}&ids=${encodeURIComponent(request.ids.join(','))}${request.capacity ? `&capacity=${request.capacity}` : ''}`;
+
+  return {
+    plan: {
+      success: true,
+      start,
+      stops: routeStops,
+      skipped,
+      missingIds,
+      totalKm: routeStops.length > 0 ? routeStops[routeStops.length - 1].cumulativeKm : 0,
+      totalPeople: cumulativePeople,
+      capacity: request.capacity ?? null,
+      mapsUrls: buildMapsUrls(
+        [[start.latitude, start.longitude] as [number, number]].concat(
+          routeStops.map(stop => [stop.emergency.latitude, stop.emergency.longitude] as [number, number])
+        )
+      ),
+      shareUrl: `${baseUrl}/routes?${shareParams}`,
+      printUrl: `${baseUrl}/print?start=${start.latitude},${start.longitude}&ids=${encodeURIComponent(visitedIds)}`,
+      generatedAt: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { Emergency, ShareChannel } from '@/types/emergency';
+import { categorizeNeeds, getNeedLabel } from '@/utils/needsTaxonomy';
+
+// Pre-filled share messages and links for each channel people use to coordinate relief
+
+export interface ShareChannelInfo {
+  id: ShareChannel;
+  label: string;
+  icon: string;
+}
+
+// Order of the share buttons; `native` (the device's share sheet) is only offered where the Web Share API exists
+export const SHARE_CHANNELS: ShareChannelInfo[] = [
+  { id: 'native', label: 'Share…', icon: '📤' },
+  { id: 'messenger', label: 'Messenger', icon: '💬' },
+  { id: 'viber', label: 'Viber', icon: '📞' },
+  { id: 'whatsapp', label: 'WhatsApp', icon: '🟢' },
+  { id: 'sms', label: 'SMS', icon: '✉️' },
+  { id: 'facebook', label: 'Facebook', icon: '👍' },
+  { id: 'x', label: 'X', icon: '✖️' },
+  { id: 'copy', label: 'Copy link', icon: '🔗' },
+];
+
+const SMS_LENGTH = 160; // One GSM-7 segment
+const X_TEXT_LENGTH = 250; // 280 minus the 23 characters X counts for any link, with room to spare
+const X_PLACE_LENGTH = 80; // Shortened first, so the hashtags survive
+
+// Function to list an emergency's need categories, e.g. "Water, Food"
+function describeNeeds(emergency: Emergency): string {
+  return categorizeNeeds(emergency.needs || []).map(getNeedLabel).join(', ');
+}
+
+// Function to describe how far away the matched relief is
+function formatDistance(distanceKm: number): string {
+  return distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
+}
+
+// Function to shorten text to a length, ending on a whole word where possible
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 3);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut}...`;
+}
+
+/**
+ * Build the pre-filled text for a channel
+ *
+ * Chat apps get a few lines with emoji. SMS gets plain ASCII that fits one segment with the
+ * link, since emoji switch a text to 70-character segments. X gets one short line with hashtags.
+ * @param emergency Emergency record, enriched with relief matches when available
+ * @param channel Channel the text is for
+ * @param url Share page link, appended unless the channel takes it separately (`native`, `x`)
+ * @returns Text to pre-fill
+ */
+export function buildShareMessage(emergency: Emergency, channel: ShareChannel, url: string): string {
+  const place = emergency.placename || 'Cebu';
+  const people = emergency.numberOfPeople || 0;
+  const peopleText = `${people} ${people === 1 ? 'person' : 'people'}`;
+  const needs = describeNeeds(emergency);
+  const need = people === 1 ? 'needs' : 'need';
+
+  if (channel === 'sms') {
+    const relief = emergency.hasReliefAction ? 'Relief nearby' : 'No relief yet';
+    const prefix = `${emergency.urgencyLevel}: ${peopleText} at `;
+    const suffix = `${needs ? ` ${need} ${needs.toLowerCase()}` : ` ${need} help`}. ${relief}. ${url}`;
+    // Spell accented letters without their accents (Dañao -> Danao), then drop anything else outside ASCII
+    return `${prefix}${truncate(place, Math.max(20, SMS_LENGTH - prefix.length - suffix.length))}${suffix}`
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\x20-\x7e]/g, '');
+  }
+
+  if (channel === 'x') {
+    const text = `🚨 ${emergency.urgencyLevel}: ${peopleText} in ${truncate(place, X_PLACE_LENGTH)}${needs ? ` ${need} ${needs.toLowerCase()}` : ` ${need} help`}. ${emergency.hasReliefAction ? 'Relief is nearby - help coordinate.' : 'No relief yet - please share.'} #Cebu #ReliefPH`;
+    return truncate(text, X_TEXT_LENGTH);
+  }
+
+  const relief = emergency.hasReliefAction
+    ? `✅ Relief available${emergency.reliefActionDistance !== undefined ? ` ${formatDistance(emergency.reliefActionDistance)} away` : ''}`
+    : '❗ No relief yet - please help';
+
+  const lines = [
+    `🚨 ${emergency.urgencyLevel} emergency in ${place}`,
+    `👥 ${peopleText} affected`,
+    needs ? `📦 Needs: ${needs}` : '',
+    relief,
+  ].filter(Boolean);
+
+  // The device's share sheet takes the link separately
+  return channel === 'native' ? lines.join('\n') : `${lines.join('\n')}\n\n${url}`;
+}
+
+/**
+ * Build the link that opens a channel with the message pre-filled
+ * @param channel Channel to open; `native` and `copy` have no link
+ * @param url Share page link
+ * @param message Text from `buildShareMessage`
+ * @returns Channel link, or null for `native` and `copy`
+ */
+export function getShareChannelUrl(channel: ShareChannel, url: string, message: string): string | null {
+  switch (channel) {
+    case 'facebook':
+      // Facebook pulls the title, description and image from the share page's Open Graph tags
+      return `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(url)}`;
+    case 'messenger':
+      // Messenger only takes a link; the preview comes from the Open Graph tags
+      return `fb-messenger://share/?link=${encodeURIComponent(url)}`;
+    case 'whatsapp':
+      return `https://wa.me/?text=${encodeURIComponent(message)}`;
+    case 'viber':
+      return `viber://forward?text=${encodeURIComponent(message)}`;
+    case 'sms':
+      // `?&body=` is understood by both Android and iOS
+      return `sms:?&body=${encodeURIComponent(message)}`;
+    case 'x':
+      return `https://twitter.com/intent/tweet?text=${encodeURIComponent(message)}&url=${encodeURIComponent(url)}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,48 @@
+import { EmergencySharePayload } from '@/types/emergency';
+import { EmergencyLookup } from '@/utils/dataAccess';
+import { getMiniMapPoints, getShareImageUrl } from '@/utils/shareImage';
+
+// Titles, descriptions and links for shared emergencies, used by the share API and the share page
+
+/**
+ * Public base URL of the dashboard, for links that leave the app
+ * @returns `NEXT_PUBLIC_BASE_URL`, or the local development server
+ */
+export function getPublicBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+}
+
+// Function to describe how far away the matched relief is
+function formatReliefDistance(distanceKm?: number): string {
+  if (!distanceKm) return '';
+  return distanceKm < 1 ? `${(distanceKm * 1000).toFixed(0)}m away` : `${distanceKm.toFixed(1)}km away`;
+}
+
+/**
+ * Build the share content for an emergency
+ * @param lookup Emergency record, enriched with relief matches, and the dataset it was found in
+ * @param baseUrl Public base URL of the dashboard
+ * @returns Title, description, page and image links, and the emergency itself
+ */
+export function buildSharePayload(lookup: EmergencyLookup, baseUrl: string = getPublicBaseUrl()): EmergencySharePayload {
+  const { emergency, dashboard } = lookup;
+  const hasRelief = emergency.hasReliefAction;
+  const distanceText = formatReliefDistance(emergency.reliefActionDistance);
+
+  const title = hasRelief
+    ? `Emergency in ${emergency.placename} - Relief Available ${distanceText}!`
+    : `URGENT: Emergency in ${emergency.placename} needs immediate relief!`;
+
+  const description = hasRelief
+    ? `${emergency.numberOfPeople} people affected. Relief is available ${distanceText}. Help coordinate relief efforts.`
+    : `${emergency.numberOfPeople} people affected. No relief available yet - please help!`;
+
+  return {
+    title,
+    description,
+    url: `${baseUrl}/share/emergency/${encodeURIComponent(emergency.id)}`,
+    image: getShareImageUrl(baseUrl, emergency, getMiniMapPoints(emergency, dashboard)),
+    imageAlt: `${emergency.urgencyLevel} emergency in ${emergency.placename}: ${emergency.numberOfPeople} people affected`,
+    emergency,
+  };
+}
@@ -0,0 +1,130 @@
+import { DashboardResponse, Emergency, ReliefAction } from '@/types/emergency';
+import { calculateHaversineDistance } from '@/utils/geospatial';
+
+// Versioning, caching and map projection for the per-emergency Open Graph images
+
+export const SHARE_IMAGE_WIDTH = 1200;
+export const SHARE_IMAGE_HEIGHT = 630;
+export const MINI_MAP_RADIUS_KM = 1; // Half the width of the area shown on the mini-map
+
+const MAX_CACHED_IMAGES = 200;
+
+export interface MiniMapPoint {
+  x: number; // 0 (west edge) to 1 (east edge)
+  y: number; // 0 (north edge) to 1 (south edge)
+  kind: 'emergency' | 'relief';
+}
+
+// Rendered images by emergency id and version, oldest first
+const imageCache = new Map<string, ArrayBuffer>();
+
+// Function to hash the mini-map's points (FNV-1a), so the version changes when nearby markers do
+function hashMiniMap(mapPoints: MiniMapPoint[]): string {
+  const text = mapPoints.map(point => `${point.kind[0]}${point.x.toFixed(3)},${point.y.toFixed(3)}`).sort().join(';');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Version of an emergency's share image
+ *
+ * Keyed on `updatedAt`, the relief status, which changes when a donation is matched without
+ * the report itself being updated, and the mini-map's markers, which change when nearby
+ * reports or relief actions come and go.
+ * @param emergency Emergency record, enriched with relief matches
+ * @param mapPoints Mini-map points drawn on the image
+ * @returns Short version string for the image URL
+ */
+export function getShareImageVersion(emergency: Emergency, mapPoints: MiniMapPoint[]): string {
+  const updatedAt = new Date(emergency.updatedAt || emergency.timestamp).getTime();
+  return `${(isNaN(updatedAt) ? 0 : updatedAt).toString(36)}${emergency.hasReliefAction ? 'r' : ''}-${hashMiniMap(mapPoints)}`;
+}
+
+/**
+ * Absolute URL of an emergency's share image
+ * @param baseUrl Public base URL of the dashboard
+ * @param emergency Emergency record, enriched with relief matches
+ * @param mapPoints Mini-map points drawn on the image
+ * @returns Image URL that changes whenever the image would
+ */
+export function getShareImageUrl(baseUrl: string, emergency: Emergency, mapPoints: MiniMapPoint[]): string {
+  return `${baseUrl}/api/share/emergency/${encodeURIComponent(emergency.id)}/image?v=${getShareImageVersion(emergency, mapPoints)}`;
+}
+
+/**
+ * Look up a rendered image
+ * @param key Emergency id and version
+ * @returns PNG bytes, or undefined if not rendered yet
+ */
+export function getCachedShareImage(key: string): ArrayBuffer | undefined {
+  return imageCache.get(key);
+}
+
+/**
+ * Keep a rendered image, evicting the oldest once the cache is full
+ * @param key Emergency id and version
+ * @param image PNG bytes
+ */
+export function cacheShareImage(key: string, image: ArrayBuffer): void {
+  imageCache.delete(key);
+  imageCache.set(key, image);
+  if (imageCache.size > MAX_CACHED_IMAGES) {
+    const oldest = imageCache.keys().next();
+    if (!oldest.done) {
+      imageCache.delete(oldest.value);
+    }
+  }
+}
+
+/**
+ * Place nearby emergencies and relief actions on a square mini-map centred on an emergency
+ * @param center Emergency the map is centred on
+ * @param emergencies Other emergency records
+ * @param reliefActions Relief actions
+ * @param radiusKm Distance from the centre to each edge
+ * @returns Points inside the map, relief actions last so they draw on top
+ */
+export function projectMiniMap(
+  center: Emergency,
+  emergencies: Emergency[],
+  reliefActions: ReliefAction[],
+  radiusKm: number = MINI_MAP_RADIUS_KM
+): MiniMapPoint[] {
+  const kmPerDegreeLat = 110.574;
+  const kmPerDegreeLon = 111.32 * Math.cos((center.latitude * Math.PI) / 180);
+
+  const project = (latitude: number, longitude: number, kind: MiniMapPoint['kind']): MiniMapPoint | null => {
+    if (calculateHaversineDistance(center.latitude, center.longitude, latitude, longitude) > radiusKm * 1.5) {
+      return null;
+    }
+    const x = 0.5 + ((longitude - center.longitude) * kmPerDegreeLon) / (2 * radiusKm);
+    const y = 0.5 - ((latitude - center.latitude) * kmPerDegreeLat) / (2 * radiusKm);
+    return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y, kind } : null;
+  };
+
+  const points: MiniMapPoint[] = [];
+  emergencies.forEach(emergency => {
+    const point = emergency.id === center.id ? null : project(emergency.latitude, emergency.longitude, 'emergency');
+    if (point) points.push(point);
+  });
+  reliefActions.forEach(reliefAction => {
+    const point = project(reliefAction.latitude, reliefAction.longitude, 'relief');
+    if (point) points.push(point);
+  });
+
+  return points;
+}
+
+/**
+ * Mini-map points for an emergency, from the dataset it was found in
+ * @param emergency Emergency the map is centred on
+ * @param dashboard Dataset with the other emergencies and the relief actions
+ * @returns Points inside the map
+ */
+export function getMiniMapPoints(emergency: Emergency, dashboard: DashboardResponse): MiniMapPoint[] {
+  return projectMiniMap(emergency, dashboard.emergencies.data, dashboard.reliefActions ? dashboard.reliefActions.data : []);
+}
@@ -0,0 +1,178 @@
+import { Emergency, EmergencySnapshot, SnapshotMeta, SnapshotSummary } from '@/types/emergency';
+import { StorageBackend, getStorage } from '@/utils/storage';
+
+export interface SnapshotStorage {
+  save: (snapshot: EmergencySnapshot) => Promise<void>;
+  list: (since?: string) => Promise<SnapshotMeta[]>;
+  load: (id: string) => Promise<EmergencySnapshot | null>;
+}
+
+// Manifest entry; `slot` is set while the full dataset is still kept
+interface SnapshotRecord {
+  id: string;
+  takenAt: string;
+  summary: SnapshotSummary;
+  slot?: number;
+}
+
+const DEFAULT_RETENTION = 7 * 24 * 12; // One week of summaries at the 5-minute cache interval
+const DEFAULT_FULL_COPIES = 24; // Two hours of full datasets at the 5-minute cache interval
+const SNAPSHOT_PREFIX = 'snapshots';
+
+/**
+ * Summarize a dataset for trend series without having to reload the full snapshot
+ * @param emergencies Emergency records
+ * @returns Counts used by the trends API
+ */
+export function summarizeEmergencies(emergencies: Emergency[]): SnapshotSummary {
+  const urgencyCounts: Record<string, number> = {};
+  emergencies.forEach(emergency => {
+    urgencyCounts[emergency.urgencyLevel] = (urgencyCounts[emergency.urgencyLevel] || 0) + 1;
+  });
+
+  return {
+    count: emergencies.length,
+    pendingCount: emergencies.filter(emergency => emergency.status === 'pending').length,
+    totalPeople: emergencies.reduce((sum, emergency) => sum + (emergency.numberOfPeople || 0), 0),
+    urgencyCounts,
+  };
+}
+
+/**
+ * Snapshot storage on a storage backend
+ *
+ * `snapshots/manifest.json` lists every snapshot with its summary, oldest first, for up to
+ * `retention` snapshots. Only the newest `fullCopies` keep their full dataset; those are
+ * written to a fixed ring of `snapshots/data-<slot>.json` files, so storage stays bounded
+ * without having to delete anything.
+ * @param backend Storage backend, shared with the other stored documents
+ * @param retention Maximum number of snapshot summaries to keep
+ * @param fullCopies Maximum number of full datasets to keep
+ * @returns Snapshot storage
+ */
+export function createSnapshotStorage(
+  backend: StorageBackend,
+  retention: number = DEFAULT_RETENTION,
+  fullCopies: number = DEFAULT_FULL_COPIES
+): SnapshotStorage {
+  const manifestPath = `${SNAPSHOT_PREFIX}/manifest.json`;
+  const dataPath = (slot: number) => `${SNAPSHOT_PREFIX}/data-${slot}.json`;
+
+  // Serialize manifest updates so concurrent saves in this instance don't overwrite each other
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const readManifest = async (): Promise<SnapshotRecord[]> => {
+    try {
+      return JSON.parse(await backend.read(manifestPath)) as SnapshotRecord[];
+    } catch (error) {
+      return [];
+    }
+  };
+
+  const toMeta = (record: SnapshotRecord): SnapshotMeta => ({
+    id: record.id,
+    takenAt: record.takenAt,
+    summary: record.summary,
+    hasData: record.slot !== undefined,
+  });
+
+  const save = (snapshot: EmergencySnapshot): Promise<void> => {
+    // A failed save must not block the ones queued after it
+    pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+      const manifest = await readManifest();
+
+      // Next slot in the ring after the newest full copy
+      let previousSlot = -1;
+      manifest.forEach(record => {
+        if (record.slot !== undefined) previousSlot = record.slot;
+      });
+      const slot = (previousSlot + 1) % fullCopies;
+
+      await backend.write(
+        dataPath(slot),
+        JSON.stringify({ id: snapshot.id, takenAt: snapshot.takenAt, summary: snapshot.summary, data: snapshot.data }),
+        'application/json'
+      );
+
+      // The older snapshot that used this slot keeps only its summary
+      manifest.forEach(record => {
+        if (record.slot === slot) delete record.slot;
+      });
+      manifest.push({ id: snapshot.id, takenAt: snapshot.takenAt, summary: snapshot.summary, slot });
+
+      // Drop the oldest summaries beyond the retention limit
+      manifest.splice(0, Math.max(0, manifest.length - retention));
+      await backend.write(manifestPath, JSON.stringify(manifest), 'application/json');
+    });
+
+    return pendingWrite;
+  };
+
+  const list = async (since?: string): Promise<SnapshotMeta[]> => {
+    const manifest = await readManifest();
+    if (!since) {
+      return manifest.map(toMeta);
+    }
+
+    const sinceTime = new Date(since).getTime();
+    return manifest.filter(record => new Date(record.takenAt).getTime() >= sinceTime).map(toMeta);
+  };
+
+  const load = async (id: string): Promise<EmergencySnapshot | null> => {
+    const record = (await readManifest()).find(entry => entry.id === id);
+    if (!record || record.slot === undefined) {
+      return null;
+    }
+
+    try {
+      const snapshot = JSON.parse(await backend.read(dataPath(record.slot))) as EmergencySnapshot;
+      // The slot may have been reused by a newer snapshot since the manifest was read
+      return snapshot.id === id ? snapshot : null;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  return {
+    save,
+    list,
+    load,
+  };
+}
+
+let snapshotStorage: SnapshotStorage | null = null;
+
+/**
+ * Get the configured snapshot storage
+ *
+ * Stores snapshots on the backend from `getStorage()`, so every instance sees the same history.
+ * Uses `SNAPSHOT_RETENTION` (summaries) and `SNAPSHOT_FULL_COPIES` (full datasets).
+ * @returns Snapshot storage
+ */
+export function getSnapshotStorage(): SnapshotStorage {
+  if (!snapshotStorage) {
+    const retention = parseInt(process.env.SNAPSHOT_RETENTION || '', 10) || DEFAULT_RETENTION;
+    const fullCopies = parseInt(process.env.SNAPSHOT_FULL_COPIES || '', 10) || DEFAULT_FULL_COPIES;
+    snapshotStorage = createSnapshotStorage(getStorage(), retention, Math.min(fullCopies, retention));
+  }
+
+  return snapshotStorage;
+}
+
+/**
+ * Save a timestamped snapshot of a freshly fetched dataset
+ * @param emergencies Emergency records from the upstream API
+ * @returns The saved snapshot's metadata
+ */
+export async function recordSnapshot(emergencies: Emergency[]): Promise<SnapshotMeta> {
+  const takenAt = new Date().toISOString();
+  const snapshot: EmergencySnapshot = {
+    id: takenAt.replace(/[:.]/g, '-'),
+    takenAt,
+    summary: summarizeEmergencies(emergencies),
+    data: emergencies,
+  };
+
+  await getSnapshotStorage().save(snapshot);
+  return { id: snapshot.id, takenAt: snapshot.takenAt, summary: snapshot.summary };
+}
@@ -0,0 +1,87 @@
+import { DashboardStats, Emergency, NeedCategory, StatsCountMode } from '@/types/emergency';
+import { hasQualityIssue } from '@/utils/dataQuality';
+import { collapseDuplicates } from '@/utils/deduplication';
+import { categorizeNeeds, getNeedLabel } from '@/utils/needsTaxonomy';
+
+/**
+ * Generate the dashboard summary statistics and chart breakdowns
+ * @param records Emergency records (enriched with relief matches when available)
+ * @param countMode Count every report, or count each duplicate cluster as one incident
+ * @returns Dashboard statistics
+ */
+export function generateStatistics(records: Emergency[], countMode: StatsCountMode = 'reports'): DashboardStats {
+  const emergencyData = countMode === 'incidents' ? collapseDuplicates(records) : records;
+
+  // Summary statistics
+  const totalEmergencies = emergencyData.length;
+  const totalPeople = emergencyData.reduce((sum, item) => sum + (item.numberOfPeople || 0), 0);
+  const avgPeople = totalEmergencies > 0 ? totalPeople / totalEmergencies : 0;
+  const pendingCount = emergencyData.filter(item => item.status === 'pending').length;
+
+  // Calculate median for more robust average
+  const peopleCounts = emergencyData.map(item => item.numberOfPeople || 0).sort((a, b) => a - b);
+  const median = peopleCounts.length % 2 === 0 
+    ? (peopleCounts[peopleCounts.length / 2 - 1] + peopleCounts[peopleCounts.length / 2]) / 2
+    : peopleCounts[Math.floor(peopleCounts.length / 2)];
+
+  // Calculate average without the people counts the data-quality rules flagged as missing or outliers
+  const filteredData = emergencyData.filter(item => !hasQualityIssue(item, ['people-count', 'people-missing', 'people-outlier']));
+  const filteredTotalPeople = filteredData.reduce((sum, item) => sum + (item.numberOfPeople || 0), 0);
+  const filteredAvgPeople = filteredData.length > 0 ? filteredTotalPeople / filteredData.length : avgPeople;
+
+  // Analyze needs by category, so "Water", "drinking water" and "tubig" count as one need per report
+  const needsCount: Partial<Record<NeedCategory, number>> = {};
+  emergencyData.forEach(item => {
+    if (item.needs && Array.isArray(item.needs)) {
+      categorizeNeeds(item.needs).forEach(category => {
+        needsCount[category] = (needsCount[category] || 0) + 1;
+      });
+    }
+  });
+  const needsStats = (Object.keys(needsCount) as NeedCategory[])
+    .map(category => ({ label: getNeedLabel(category), value: needsCount[category] || 0 }))
+    .sort((a, b) => b.value - a.value);
+
+  // Analyze urgency
+  const urgencyCount: Record<string, number> = {};
+  emergencyData.forEach(item => {
+    if (item.urgencyLevel) {
+      urgencyCount[item.urgencyLevel] = (urgencyCount[item.urgencyLevel] || 0) + 1;
+    }
+  });
+  const urgencyStats = Object.entries(urgencyCount)
+    .sort((a, b) => b[1] - a[1])
+    .map(([label, value]) => ({ label, value }));
+
+  // Analyze status (including relief available)
+  const statusCount: Record<string, number> = {};
+  emergencyData.forEach(item => {
+    if (item.hasReliefAction) {
+      // Count relief available as a separate category
+      statusCount['Relief Available'] = (statusCount['Relief Available'] || 0) + 1;
+    } else if (item.reliefMatches && item.reliefMatches.length > 0) {
+      // Nearby donations that only cover part of the needs
+      statusCount['Partial Relief'] = (statusCount['Partial Relief'] || 0) + 1;
+    } else if (item.status) {
+      // Count original status for non-relief items
+      statusCount[item.status] = (statusCount[item.status] || 0) + 1;
+    }
+  });
+  const statusStats = Object.entries(statusCount)
+    .sort((a, b) => b[1] - a[1])
+    .map(([label, value]) => ({ 
+      label: label.charAt(0).toUpperCase() + label.slice(1), 
+      value 
+    }));
+
+
+  return {
+    totalEmergencies,
+    totalPeople,
+    avgPeople: Math.round(filteredAvgPeople), // Use filtered average to remove extreme outliers
+    pendingCount,
+    needsStats,
+    urgencyStats,
+    statusStats,
+  };
+}
@@ -0,0 +1,263 @@
+import * as vercelBlob from '@vercel/blob';
+import { createHash, createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Durable key/value storage for last-known-good API responses
+
+export interface StorageBackend {
+  name: string;
+  read: (pathname: string) => Promise<string>;
+  write: (pathname: string, content: string, contentType: string) => Promise<void>;
+}
+
+export type StorageBackendType = 'vercel-blob' | 'filesystem' | 's3';
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or http://localhost:9000 (path-style URLs are used)
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;
+}
+
+/**
+ * Storage on Vercel Blob (needs `BLOB_READ_WRITE_TOKEN`)
+ * @returns Storage backend
+ */
+export function createVercelBlobStorage(): StorageBackend {
+  return {
+    name: 'Vercel Blob',
+    async read(pathname) {
+      // First check if the file exists and get its info
+      const blobInfo = await vercelBlob.head(pathname);
+
+      // Use the downloadUrl directly from the blob info
+      const response = await fetch(blobInfo.downloadUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch blob data: ${response.status}`);
+      }
+
+      return response.text();
+    },
+    async write(pathname, content, contentType) {
+      await vercelBlob.put(pathname, content, {
+        access: 'public',
+        contentType,
+        allowOverwrite: true,
+      });
+    },
+  };
+}
+
+/**
+ * Storage on the local filesystem, for self-hosting and local development
+ * @param directory Directory to keep files in
+ * @returns Storage backend
+ */
+export function createFileSystemStorage(directory: string): StorageBackend {
+  const resolvePath = (pathname: string) => {
+    const filePath = path.resolve(directory, pathname);
+    if (!filePath.startsWith(path.resolve(directory) + path.sep)) {
+      throw new Error(`Invalid storage path: ${pathname}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'filesystem',
+    async read(pathname) {
+      return fs.readFile(resolvePath(pathname), 'utf8');
+    },
+    async write(pathname, content) {
+      const filePath = resolvePath(pathname);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so readers never see a half-written document
+      const tempPath = `${filePath}.${process.pid}.${Date.now()}${Math.random().toString(36).slice(2, 8)}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, filePath);
+    },
+  };
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Percent-encode a path segment the way S3 signs it (RFC 3986)
+function encodeS3Segment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign an S3 request with AWS Signature Version 4
+ * @param method HTTP method
+ * @param url Request URL
+ * @param headers Headers to sign (must not include `host` or `x-amz-*` date/hash headers)
+ * @param payload Request body
+ * @param config Credentials and region
+ * @param now Signing time
+ * @returns Headers to send, including `Authorization`
+ */
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  payload: string,
+  config: Pick<S3StorageConfig, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(payload);
+
+  const signedHeaderValues: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  Object.keys(headers).forEach(name => {
+    signedHeaderValues[name.toLowerCase()] = headers[name].trim();
+  });
+
+  const headerNames = Object.keys(signedHeaderValues).sort();
+  const canonicalHeaders = headerNames.map(name => `${name}:${signedHeaderValues[name]}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '', // No query string
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  const signed: Record<string, string> = { ...headers };
+  signed['x-amz-content-sha256'] = payloadHash;
+  signed['x-amz-date'] = amzDate;
+  signed['Authorization'] = `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return signed;
+}
+
+/**
+ * Storage on any S3-compatible object store (AWS S3, Cloudflare R2, MinIO, ...)
+ * @param config Endpoint, bucket and credentials
+ * @returns Storage backend
+ */
+export function createS3Storage(config: S3StorageConfig): StorageBackend {
+  const objectUrl = (pathname: string) => {
+    const key = `${config.prefix || ''}${pathname}`;
+    const encodedKey = key.split('/').map(encodeS3Segment).join('/');
+    return new URL(`${config.endpoint.replace(/\/$/, '')}/${encodeS3Segment(config.bucket)}/${encodedKey}`);
+  };
+
+  return {
+    name: 'S3',
+    async read(pathname) {
+      const url = objectUrl(pathname);
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: signS3Request('GET', url, {}, '', config),
+        cache: 'no-store',
+      });
+      if (!response.ok) {
+        throw new Error(`S3 GET ${pathname} responded with status: ${response.status}`);
+      }
+
+      return response.text();
+    },
+    async write(pathname, content, contentType) {
+      const url = objectUrl(pathname);
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: signS3Request('PUT', url, { 'content-type': contentType }, content, config),
+        body: content,
+      });
+      if (!response.ok) {
+        throw new Error(`S3 PUT ${pathname} responded with status: ${response.status}`);
+      }
+    },
+  };
+}
+
+// Function to read the S3 settings from the environment
+function readS3Config(): S3StorageConfig {
+  const { S3_ENDPOINT, S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PREFIX } = process.env;
+
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const region = S3_REGION || 'us-east-1';
+  return {
+    endpoint: S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    bucket: S3_BUCKET,
+    region,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    prefix: S3_PREFIX,
+  };
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Get the configured storage backend
+ *
+ * `STORAGE_BACKEND` picks `vercel-blob`, `filesystem` (directory from `STORAGE_DIR`) or `s3`
+ * (`S3_*` variables). Without it, Vercel Blob is used when `BLOB_READ_WRITE_TOKEN` is set,
+ * otherwise the filesystem.
+ * @returns Storage backend
+ */
+export function getStorage(): StorageBackend {
+  if (storage) {
+    return storage;
+  }
+
+  const type = (process.env.STORAGE_BACKEND || (process.env.BLOB_READ_WRITE_TOKEN ? 'vercel-blob' : 'filesystem')) as StorageBackendType;
+
+  if (type === 'vercel-blob') {
+    storage = createVercelBlobStorage();
+  } else if (type === 'filesystem') {
+    storage = createFileSystemStorage(process.env.STORAGE_DIR || path.join(os.tmpdir(), 'emergency-dashboard-storage'));
+  } else if (type === 's3') {
+    storage = createS3Storage(readS3Config());
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND: ${type}`);
+  }
+
+  console.log(`🗄️ Using ${storage.name} storage`);
+  return storage;
+}
+
+/**
+ * Write a JSON document to the configured storage, overwriting any previous version
+ * @param pathname Document path, e.g. "emergencies.json"
+ * @param data Data to serialize
+ */
+export async function writeJsonDocument(pathname: string, data: unknown): Promise<void> {
+  await getStorage().write(pathname, JSON.stringify(data, null, 2), 'application/json');
+}
+
+/**
+ * Read a JSON document from the configured storage
+ * @param pathname Document path, e.g. "emergencies.json"
+ * @returns Parsed JSON document
+ */
+export async function readJsonDocument<T>(pathname: string): Promise<T> {
+  return JSON.parse(await getStorage().read(pathname)) as T;
+}
@@ -0,0 +1,79 @@
+import { Emergency, SnapshotMeta, TrendPoint, TrendsResponse } from '@/types/emergency';
+
+const HOUR = 60 * 60 * 1000;
+
+export const DEFAULT_TREND_HOURS = 48;
+export const MAX_TREND_HOURS = 7 * 24;
+
+// Start of the hour containing the given time
+function floorToHour(time: number): number {
+  return Math.floor(time / HOUR) * HOUR;
+}
+
+/**
+ * Count new reports per hour using each record's creation time
+ * @param emergencies Emergency records
+ * @param from Start of the first hour bucket (ms)
+ * @param to End of the window (ms)
+ * @returns One point per hour, including hours without reports
+ */
+export function countReportsPerHour(emergencies: Emergency[], from: number, to: number): TrendPoint[] {
+  const buckets = new Map<number, number>();
+  for (let hour = floorToHour(from); hour <= to; hour += HOUR) {
+    buckets.set(hour, 0);
+  }
+
+  emergencies.forEach(emergency => {
+    const reportedAt = new Date(emergency.createdAt || emergency.timestamp).getTime();
+    const hour = floorToHour(reportedAt);
+    if (buckets.has(hour)) {
+      buckets.set(hour, (buckets.get(hour) || 0) + 1);
+    }
+  });
+
+  const points: TrendPoint[] = [];
+  buckets.forEach((value, hour) => points.push({ timestamp: new Date(hour).toISOString(), value }));
+  return points;
+}
+
+/**
+ * Turn snapshot summaries into an hourly series, using the last snapshot taken in each hour
+ * @param snapshots Snapshot metadata, oldest first
+ * @param getValue Picks the value to chart from a snapshot
+ * @returns One point per hour that has at least one snapshot
+ */
+export function snapshotSeries(snapshots: SnapshotMeta[], getValue: (snapshot: SnapshotMeta) => number): TrendPoint[] {
+  const lastPerHour = new Map<number, SnapshotMeta>();
+  snapshots.forEach(snapshot => {
+    lastPerHour.set(floorToHour(new Date(snapshot.takenAt).getTime()), snapshot);
+  });
+
+  const points: TrendPoint[] = [];
+  lastPerHour.forEach((snapshot, hour) => points.push({ timestamp: new Date(hour).toISOString(), value: getValue(snapshot) }));
+  return points.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Build all dashboard trend series for a time window
+ * @param snapshots Snapshot metadata within the window, oldest first
+ * @param emergencies Current emergency records
+ * @param hours Window size in hours
+ * @param now End of the window (ms)
+ * @returns Trends response
+ */
+export function buildTrends(snapshots: SnapshotMeta[], emergencies: Emergency[], hours: number, now: number = Date.now()): TrendsResponse {
+  const from = now - hours * HOUR;
+
+  return {
+    success: true,
+    generatedAt: new Date(now).toISOString(),
+    hours,
+    snapshotCount: snapshots.length,
+    series: {
+      newReportsPerHour: countReportsPerHour(emergencies, from, now),
+      pendingCount: snapshotSeries(snapshots, snapshot => snapshot.summary.pendingCount),
+      peopleAffected: snapshotSeries(snapshots, snapshot => snapshot.summary.totalPeople),
+      totalReports: snapshotSeries(snapshots, snapshot => snapshot.summary.count),
+    },
+  };
+}
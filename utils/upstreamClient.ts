@@ -0,0 +1,225 @@
+import { CircuitState, UpstreamStats } from '@/types/emergency';
+
+// Shared client for the upstream APIs: circuit breaker, jittered exponential backoff,
+// request coalescing and latency/error stats
+
+export interface UpstreamClientOptions<T> {
+  name: string;
+  envVar: string; // Environment variable holding the upstream URL
+  validate: (data: unknown) => T; // Throws if the payload is unusable
+  onData?: (data: T) => void | Promise<void>; // Runs once per successful fetch, however many callers share it
+  timeout?: number; // Per-request timeout in ms
+  attempts?: number; // Attempts per fetch before it counts as a failure
+  failureThreshold?: number; // Consecutive failures before the circuit opens
+  baseBackoff?: number; // First backoff in ms, doubled after every failure
+  maxBackoff?: number;
+}
+
+export interface UpstreamClient<T> {
+  fetch: () => Promise<T>;
+  retryInBackground: () => void;
+  stats: () => UpstreamStats;
+}
+
+const LATENCY_SAMPLES = 20;
+
+/**
+ * Exponential backoff with jitter, so instances that failed together don't retry together
+ * @param failures Consecutive failures so far (1 for the first)
+ * @param baseBackoff First backoff in ms
+ * @param maxBackoff Upper bound in ms
+ * @returns Delay in ms, between half and all of the exponential delay
+ */
+export function jitteredBackoff(failures: number, baseBackoff: number, maxBackoff: number): number {
+  const exponential = Math.min(baseBackoff * Math.pow(2, Math.max(failures - 1, 0)), maxBackoff);
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * Create a client for one upstream JSON API
+ * @param options Upstream name, URL variable, validation and resilience settings
+ * @returns Upstream client
+ */
+export function createUpstreamClient<T>(options: UpstreamClientOptions<T>): UpstreamClient<T> {
+  const {
+    name,
+    envVar,
+    validate,
+    onData,
+    timeout = 30000,
+    attempts = 1,
+    failureThreshold = 3,
+    baseBackoff = 60 * 1000,
+    maxBackoff = 15 * 60 * 1000,
+  } = options;
+
+  let circuitState: CircuitState = 'closed';
+  let openUntil = 0;
+  let consecutiveFailures = 0;
+  let totalRequests = 0;
+  let totalFailures = 0;
+  let lastSuccessAt: number | null = null;
+  let lastErrorAt: number | null = null;
+  let lastError: string | null = null;
+  const latencies: number[] = [];
+
+  let inFlight: Promise<T> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryAt = 0;
+
+  const recordLatency = (latency: number) => {
+    latencies.push(latency);
+    if (latencies.length > LATENCY_SAMPLES) {
+      latencies.shift();
+    }
+  };
+
+  const fetchOnce = async (): Promise<T> => {
+    const url = process.env[envVar];
+    if (!url) {
+      throw new Error(`${envVar} environment variable is not set`);
+    }
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Emergency-Dashboard/1.0'
+      },
+      signal: AbortSignal.timeout(timeout),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`${name} API responded with status: ${response.status}`);
+    }
+
+    return validate(await response.json());
+  };
+
+  const fetchWithAttempts = async (): Promise<T> => {
+    let lastFailure: unknown;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const startTime = Date.now();
+      totalRequests++;
+
+      try {
+        const data = await fetchOnce();
+        recordLatency(Date.now() - startTime);
+        return data;
+      } catch (error) {
+        recordLatency(Date.now() - startTime);
+        lastFailure = error;
+        console.log(`❌ ${name} API attempt ${attempt}/${attempts} failed:`, error instanceof Error ? error.message : 'Unknown error');
+        if (attempt < attempts) {
+          await new Promise(resolve => setTimeout(resolve, jitteredBackoff(attempt, 1000, 5000)));
+        }
+      }
+    }
+
+    throw lastFailure;
+  };
+
+  const onSuccess = () => {
+    if (circuitState !== 'closed') {
+      console.log(`✅ ${name} API recovered, closing circuit`);
+    }
+    circuitState = 'closed';
+    consecutiveFailures = 0;
+    lastSuccessAt = Date.now();
+  };
+
+  const onFailure = (error: unknown) => {
+    consecutiveFailures++;
+    totalFailures++;
+    lastErrorAt = Date.now();
+    lastError = error instanceof Error ? error.message : 'Unknown error';
+
+    // A failed trial request re-opens the circuit straight away
+    if (circuitState === 'half-open' || consecutiveFailures >= failureThreshold) {
+      const backoff = jitteredBackoff(consecutiveFailures - failureThreshold + 1, baseBackoff, maxBackoff);
+      circuitState = 'open';
+      openUntil = Date.now() + backoff;
+      console.log(`🔌 ${name} circuit open for ${Math.round(backoff / 1000)}s after ${consecutiveFailures} failures`);
+    }
+  };
+
+  const fetchUpstream = (): Promise<T> => {
+    // Concurrent callers share the request that is already running
+    if (inFlight) {
+      return inFlight;
+    }
+
+    if (circuitState === 'open') {
+      if (Date.now() < openUntil) {
+        return Promise.reject(new Error(`${name} API circuit is open until ${new Date(openUntil).toISOString()} (last error: ${lastError})`));
+      }
+      // Let one trial request through
+      circuitState = 'half-open';
+    }
+
+    inFlight = fetchWithAttempts()
+      .then(async data => {
+        onSuccess();
+        if (onData) {
+          await onData(data);
+        }
+        return data;
+      })
+      .catch(error => {
+        onFailure(error);
+        throw error;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+
+    return inFlight;
+  };
+
+  const retryInBackground = () => {
+    if (retryTimer) {
+      return; // Already scheduled
+    }
+
+    const delay = circuitState === 'open'
+      ? Math.max(openUntil - Date.now(), 0)
+      : jitteredBackoff(Math.max(consecutiveFailures, 1), baseBackoff, maxBackoff);
+    retryAt = Date.now() + delay;
+    console.log(`⏳ Retrying ${name} API in background in ${Math.round(delay / 1000)}s`);
+
+    retryTimer = setTimeout(async () => {
+      retryTimer = null;
+      try {
+        await fetchUpstream();
+        console.log(`✅ Background retry of ${name} API succeeded`);
+      } catch (error) {
+        retryInBackground();
+      }
+    }, delay);
+  };
+
+  const stats = (): UpstreamStats => ({
+    name,
+    circuitState: circuitState === 'open' && Date.now() >= openUntil ? 'half-open' : circuitState,
+    consecutiveFailures,
+    totalRequests,
+    totalFailures,
+    lastSuccessAt: lastSuccessAt ? new Date(lastSuccessAt).toISOString() : null,
+    lastErrorAt: lastErrorAt ? new Date(lastErrorAt).toISOString() : null,
+    lastError,
+    lastLatencyMs: latencies.length > 0 ? latencies[latencies.length - 1] : null,
+    averageLatencyMs: latencies.length > 0
+      ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+      : null,
+    nextRetryAt: retryTimer ? new Date(retryAt).toISOString() : circuitState === 'open' ? new Date(openUntil).toISOString() : null,
+    retryPending: retryTimer !== null,
+  });
+
+  return {
+    fetch: fetchUpstream,
+    retryInBackground,
+    stats,
+  };
+}